@@ -0,0 +1,259 @@
+/**
+ * Local stand-in for a remote audio pipeline: a dependency-free WebSocket
+ * server (node:http + node:crypto) streaming synthetic speech to the level
+ * feed — talk bursts of syllables with pauses in between.
+ *
+ *   npm run feed-server -- [--port=8787] [--format=json|binary|pcm]
+ *                          [--rate=30] [--drop-every=0] [--stall-every=0]
+ *
+ * then open the app with ?feed=ws://localhost:8787 (or connect from the panel).
+ *
+ *   --format       json levels, binary levels, or 16 kHz int16 PCM (20 ms chunks)
+ *   --rate         level frames per second (json / binary)
+ *   --drop-every   close every connection after N seconds — exercises reconnect
+ *   --stall-every  go quiet for 2 s every N seconds — exercises the stale fade-out
+ *
+ * Frame formats are documented in src/lib/levelFeed.ts.
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value = 'true'] = arg.replace(/^--/, '').split('=');
+    return [key, value];
+  })
+);
+const PORT = Number(args.port ?? 8787);
+const FORMAT = args.format ?? 'json';
+const RATE = Number(args.rate ?? 30);
+const DROP_EVERY_S = Number(args['drop-every'] ?? 0);
+const STALL_EVERY_S = Number(args['stall-every'] ?? 0);
+const STALL_S = 2;
+
+if (!['json', 'binary', 'pcm'].includes(FORMAT)) {
+  console.error(`Unknown --format "${FORMAT}" (json, binary or pcm)`);
+  process.exit(1);
+}
+
+// =============================================
+// SYNTHETIC SPEECH
+// =============================================
+
+const PCM_RATE = 16000;
+const PCM_CHUNK = PCM_RATE / 50;
+
+/** Talk bursts of 4 Hz syllables, separated by pauses; returns the envelope at t seconds */
+function createSpeech() {
+  let burstEnd = 0;
+  let pauseEnd = 0;
+  let f0 = 150;
+  let lastSyllable = -1;
+
+  return {
+    /** amplitude 0..1, f0 in Hz, and whether a syllable started since the last call */
+    at(t) {
+      if (t >= pauseEnd && t >= burstEnd) {
+        burstEnd = t + 2 + Math.random() * 2;
+        pauseEnd = burstEnd + 1 + Math.random();
+      }
+      if (t >= burstEnd) return { amplitude: 0, f0, onset: 0 };
+
+      const syllable = Math.floor(t * 4);
+      const phase = t * 4 - syllable;
+      const onset = syllable !== lastSyllable ? 0.6 + Math.random() * 0.4 : 0;
+      if (onset) {
+        lastSyllable = syllable;
+        f0 = Math.max(100, Math.min(240, f0 + (Math.random() - 0.5) * 40));
+      }
+      // Quick rise, slower decay within each syllable
+      const amplitude = Math.min(1, phase * 8) * Math.exp(-phase * 2.5);
+      return { amplitude, f0, onset };
+    },
+  };
+}
+
+function levelsFrame(speech, t) {
+  const { amplitude, f0, onset } = speech.at(t);
+  const wobble = 0.5 + 0.5 * Math.sin(t * 7);
+  return {
+    amplitude,
+    bands: {
+      low: amplitude * 0.8,
+      mid: amplitude * (0.5 + 0.4 * wobble),
+      high: amplitude * (0.15 + 0.3 * Math.random()),
+    },
+    isSpeaking: amplitude > 0.05,
+    pitchHz: f0,
+    pitchConfidence: amplitude > 0.05 ? 0.85 : 0,
+    onset,
+  };
+}
+
+function encodeLevels(frame) {
+  const bands = [frame.bands.low, frame.bands.mid, frame.bands.high];
+  const buf = Buffer.alloc(8 + bands.length * 4);
+  buf.writeUInt8(1, 0);
+  buf.writeUInt8(frame.isSpeaking ? 1 : 0, 1);
+  buf.writeUInt16LE(bands.length, 2);
+  buf.writeFloatLE(frame.amplitude, 4);
+  bands.forEach((v, i) => buf.writeFloatLE(v, 8 + i * 4));
+  return buf;
+}
+
+/** A buzzy vowel: harmonics of f0 shaped by two fixed formants, plus breath */
+function encodePcm(speech, startSample, phaseRef) {
+  const buf = Buffer.alloc(8 + PCM_CHUNK * 2);
+  buf.writeUInt8(2, 0);
+  buf.writeUInt32LE(PCM_RATE, 4);
+  for (let i = 0; i < PCM_CHUNK; i++) {
+    const t = (startSample + i) / PCM_RATE;
+    const { amplitude, f0 } = speech.at(t);
+    phaseRef.phase = (phaseRef.phase + f0 / PCM_RATE) % 1;
+    let s = 0;
+    for (let h = 1; h <= 20; h++) {
+      const hz = f0 * h;
+      const formants = Math.exp(-(((hz - 600) / 300) ** 2)) + 0.6 * Math.exp(-(((hz - 1800) / 500) ** 2));
+      s += (Math.sin(2 * Math.PI * h * phaseRef.phase) * (0.2 + formants)) / h;
+    }
+    s = s * 0.35 * amplitude + (Math.random() - 0.5) * 0.01;
+    buf.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(s * 32767))), 8 + i * 2);
+  }
+  return buf;
+}
+
+// =============================================
+// WEBSOCKET
+// =============================================
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+function encodeWsFrame(payload, opcode) {
+  const length = payload.length;
+  const header =
+    length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/** Reads complete client frames (always masked) off the front of buf */
+function readWsFrames(buf, onFrame) {
+  let offset = 0;
+  while (buf.length - offset >= 2) {
+    const opcode = buf[offset] & 0x0f;
+    let length = buf[offset + 1] & 0x7f;
+    let at = offset + 2;
+    if (length === 126) {
+      if (buf.length - at < 2) break;
+      length = buf.readUInt16BE(at);
+      at += 2;
+    } else if (length === 127) {
+      if (buf.length - at < 8) break;
+      length = Number(buf.readBigUInt64BE(at));
+      at += 8;
+    }
+    if (buf.length - at < 4 + length) break;
+    const mask = buf.subarray(at, at + 4);
+    const payload = Buffer.from(buf.subarray(at + 4, at + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(opcode, payload);
+    offset = at + 4 + length;
+  }
+  return buf.subarray(offset);
+}
+
+function handleConnection(socket) {
+  const speech = createSpeech();
+  const startedAt = performance.now();
+  const phaseRef = { phase: 0 };
+  let samplesSent = 0;
+  let pending = Buffer.alloc(0);
+  let open = true;
+
+  const send = (payload, opcode) => {
+    if (open) socket.write(encodeWsFrame(payload, opcode));
+  };
+
+  const close = () => {
+    if (!open) return;
+    open = false;
+    clearInterval(timer);
+    socket.end(encodeWsFrame(Buffer.alloc(0), 0x8));
+  };
+
+  const timer = setInterval(
+    () => {
+      const t = (performance.now() - startedAt) / 1000;
+      if (DROP_EVERY_S > 0 && t >= DROP_EVERY_S) {
+        console.log('dropping connection');
+        open = false;
+        clearInterval(timer);
+        socket.destroy();
+        return;
+      }
+      const stalled = STALL_EVERY_S > 0 && t % STALL_EVERY_S > STALL_EVERY_S - STALL_S;
+
+      if (FORMAT === 'pcm') {
+        // Keep the sample clock in step with real time; silence the stall
+        while (samplesSent + PCM_CHUNK <= t * PCM_RATE) {
+          const chunk = encodePcm(speech, samplesSent, phaseRef);
+          samplesSent += PCM_CHUNK;
+          if (!stalled) send(chunk, 0x2);
+        }
+        return;
+      }
+      if (stalled) return;
+      const frame = levelsFrame(speech, t);
+      if (FORMAT === 'binary') send(encodeLevels(frame), 0x2);
+      else send(Buffer.from(JSON.stringify({ type: 'levels', ...frame })), 0x1);
+    },
+    FORMAT === 'pcm' ? 20 : 1000 / RATE
+  );
+
+  socket.on('data', (chunk) => {
+    pending = readWsFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) close();
+      else if (opcode === 0x9) send(payload, 0xa);
+    });
+  });
+  socket.on('close', () => {
+    open = false;
+    clearInterval(timer);
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+const server = http.createServer((_, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('voice-blob level feed — connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  console.log(`client connected (${FORMAT})`);
+  handleConnection(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`level feed on ws://localhost:${PORT} — ${FORMAT}`);
+});
@@ -1,57 +1,245 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Environment, OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import { VoiceReactiveBlob } from './components/VoiceReactiveBlob';
 import { DebugPanel } from './components/DebugPanel';
+import { MicErrorScreen } from './components/MicErrorScreen';
+import { PaletteLights } from './components/PaletteLights';
+import { ConversationBlobs } from './components/ConversationBlobs';
 import { useVoiceAnalyser } from './hooks/useVoiceAnalyser';
-import { debugStore } from './lib/debugStore';
+import { useAudioFilePlayer, isSupportedAudioFile } from './hooks/useAudioFilePlayer';
+import { useVoiceTimeline } from './hooks/useVoiceTimeline';
+import { usePresets } from './hooks/usePresets';
+import { usePalettes } from './hooks/usePalettes';
+import { useStore } from './hooks/useStore';
+import { useHostBridge } from './hooks/useHostBridge';
+import { useLevelFeed } from './hooks/useLevelFeed';
+import { useConversation } from './hooks/useConversation';
+import { useVideoRecorder } from './hooks/useVideoRecorder';
+import { useOfflineRender } from './hooks/useOfflineRender';
+import { createMediaElementSource } from './lib/audioSources';
+import { settingsStore } from './lib/debugStore';
+import { blobLook } from './lib/blobLook';
+import { assistantStore, setAutoAssistantState } from './lib/assistantState';
+import { isBuiltInPreset, PRESET_FORMAT } from './lib/presets';
+import { parseTimeline } from './lib/voiceTimeline';
+import {
+  loadPreferredMic,
+  savePreferredMic,
+  startSettingsAutosave,
+} from './lib/settingsPersistence';
 import './index.css';
 
 export default function App() {
   const {
     voiceData,
     isListening,
+    isSpeaking,
+    isCalibrating,
+    recalibrate,
+    analysisEngine,
     startListening,
+    startSource,
+    stopListening,
+    sourceKind,
     availableMics,
     selectedDeviceId,
     switchMicrophone,
+    micStatus,
+    preferredMicLabel,
+    micError,
+    clearMicError,
   } = useVoiceAnalyser();
+  const player = useAudioFilePlayer();
+  const timeline = useVoiceTimeline(voiceData);
+  const presets = usePresets();
+  const palettes = usePalettes();
+  const feed = useLevelFeed();
+  const conversation = useConversation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const video = useVideoRecorder(canvasRef);
+  const offlineRender = useOfflineRender();
+  const isReplaying = timeline.status.mode === 'replaying';
+  const isFeeding = feed.url !== null;
 
   const [showButton, setShowButton] = useState(true);
   const [buttonFading, setButtonFading] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
+  const isMuted = useStore(settingsStore, (s) => s.isMuted);
   const [buttonHovered, setButtonHovered] = useState(false);
   const [buttonActive, setButtonActive] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
 
-  const handleEnableMic = async () => {
+  // Persist settings as they change — but not the ones a replay is driving
+  const isReplayingRef = useRef(isReplaying);
+  useEffect(() => {
+    isReplayingRef.current = isReplaying;
+  }, [isReplaying]);
+  useEffect(() => startSettingsAutosave(settingsStore, () => isReplayingRef.current), []);
+
+  // Remember the mic once it's actually in use (not while on a fallback)
+  useEffect(() => {
+    if (micStatus === 'connected' && selectedDeviceId) savePreferredMic(selectedDeviceId);
+  }, [micStatus, selectedDeviceId]);
+
+  // Default assistant state follows the input, until host code sets one explicitly
+  const assistantOwner = useStore(assistantStore, (s) => s.owner);
+  useEffect(() => {
+    setAutoAssistantState(
+      micError ? 'error' : isListening || isReplaying || isFeeding ? 'listening' : 'idle'
+    );
+  }, [micError, isListening, isReplaying, isFeeding, assistantOwner]);
+
+  // A replay started from the landing screen returns there when it ends
+  useEffect(() => {
+    if (!isReplaying && !isListening && !isFeeding) {
+      setShowButton(true);
+      setButtonFading(false);
+    }
+  }, [isReplaying, isListening, isFeeding]);
+
+  // ?feed=ws://… starts on an external level feed instead of the landing screen
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get('feed');
+    if (url && feed.connect(url)) setShowButton(false);
+  }, [feed.connect]);
+
+  /** The feed replaces any local source — in conversation mode it's the agent's voice instead */
+  const handleConnectFeed = (url: string) => {
+    if (conversation.layout === 'off') {
+      player.unload();
+      stopListening();
+    }
+    if (!feed.connect(url)) return false;
+    setShowButton(false);
+    return true;
+  };
+
+  const handleEnableMic = async (deviceId: string | null = loadPreferredMic()) => {
     setButtonFading(true);
-    const success = await startListening();
-    if (success) {
+    if (conversation.layout === 'off') feed.disconnect();
+    const error = await startListening(deviceId);
+    if (!error) {
       setTimeout(() => setShowButton(false), 500);
     } else {
+      // The recovery screen takes the button's place
       setButtonFading(false);
-      alert('Could not access microphone. Please check your browser permissions.');
     }
+    return error;
+  };
+
+  const handleAudioFile = async (file: File) => {
+    if (!isSupportedAudioFile(file)) {
+      alert('Unsupported file type. Please drop a WAV, MP3 or OGG file.');
+      return;
+    }
+    setButtonFading(true);
+    if (conversation.layout === 'off') feed.disconnect();
+    const audio = player.load(file);
+    const error = await startSource(createMediaElementSource(audio, { label: file.name }));
+    if (!error) {
+      clearMicError();
+      await player.play();
+      setTimeout(() => setShowButton(false), 500);
+    } else {
+      player.unload();
+      setButtonFading(false);
+      alert('Could not play this audio file.');
+    }
+  };
+
+  /** Timeline recordings replay; preset files are imported and applied */
+  const handleJsonFile = async (file: File) => {
+    try {
+      const json = JSON.parse(await file.text());
+      if (json?.format === PRESET_FORMAT) {
+        presets.importPreset(json);
+      } else {
+        timeline.startReplay(parseTimeline(json));
+        setShowButton(false);
+      }
+    } catch (err) {
+      if (err instanceof SyntaxError) alert('This file is not valid JSON.');
+      else alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleUseMicrophone = async () => {
+    player.unload();
+    await startListening(loadPreferredMic());
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (file.type === 'application/json' || file.name.endsWith('.json')) {
+      handleJsonFile(file);
+    } else {
+      handleAudioFile(file);
+    }
+  };
+
+  const handleLoadAgentAudio = async (file: File) => {
+    if (!isSupportedAudioFile(file)) {
+      alert('Unsupported file type. Please pick a WAV, MP3 or OGG file.');
+      return;
+    }
+    if (!(await conversation.loadAgentAudio(file))) alert('Could not play this audio file.');
   };
 
   const handleMuteToggle = () => {
-    const next = !isMuted;
-    setIsMuted(next);
-    debugStore.isMuted = next;
+    settingsStore.set({ isMuted: !isMuted });
   };
 
+  // Control from a host page when embedded in an iframe
+  const assistantState = useStore(assistantStore, (s) => s.state);
+  useHostBridge({
+    state: {
+      isListening,
+      isSpeaking,
+      isMuted,
+      isCalibrating,
+      source: isReplaying ? 'replay' : isFeeding ? 'feed' : sourceKind,
+      preset: presets.activeName,
+      assistantState,
+    },
+    micError,
+    presetNames: presets.presets.map((p) => p.name),
+    startListening: (deviceId) => handleEnableMic(deviceId ?? loadPreferredMic()),
+    stopListening: () => {
+      player.unload();
+      feed.disconnect();
+      stopListening();
+    },
+    applyPreset: presets.applyPreset,
+  });
+
   return (
     <div
       style={{
         width: '100vw',
         height: '100vh',
-        background: '#FCD9EF',
+        background: `#${blobLook.background.getHexString()}`,
         overflow: 'hidden',
         position: 'relative',
       }}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setIsDraggingFile(false);
+      }}
+      onDrop={handleDrop}
     >
       <Canvas
+        ref={canvasRef}
         camera={{ position: [0, 0, 3.5], fov: 45 }}
         gl={{
           antialias: true,
@@ -60,17 +248,26 @@ export default function App() {
           toneMapping: THREE.ACESFilmicToneMapping,
           toneMappingExposure: 1.0,
         }}
-        scene={{ background: new THREE.Color('#FCD9EF') }}
+        scene={{ background: blobLook.background.clone() }}
       >
-        {/* Lighting -- soft and diffuse, with pink/violet accents */}
-        <ambientLight intensity={0.5} />
-        <directionalLight position={[5, 5, 5]} intensity={0.9} />
-        <directionalLight position={[-3, -2, -4]} intensity={0.35} color="#8B2FC6" />
-        <directionalLight position={[2, -3, 3]} intensity={0.2} color="#E60278" />
-        <pointLight position={[0, 4, 0]} intensity={0.3} color="#00B4D8" />
-
         <Environment preset="studio" />
-        <VoiceReactiveBlob voiceData={voiceData} />
+        {conversation.layout === 'off' ? (
+          <>
+            <PaletteLights />
+            <VoiceReactiveBlob
+              voiceData={isReplaying ? timeline.replayData : isFeeding ? feed.feedData : voiceData}
+            />
+          </>
+        ) : (
+          <ConversationBlobs
+            layout={conversation.layout}
+            user={{ voiceData: isReplaying ? timeline.replayData : voiceData, look: blobLook }}
+            agent={{
+              voiceData: isFeeding ? feed.feedData : conversation.agentVoiceData,
+              look: conversation.agentLook.state,
+            }}
+          />
+        )}
 
 
         <OrbitControls
@@ -83,16 +280,142 @@ export default function App() {
 
       {/* Debug panel — appears after mic is enabled */}
       <DebugPanel
-        isActive={isListening}
+        isActive={isListening || isReplaying || isFeeding}
+        isSpeaking={isSpeaking}
+        isCalibrating={isCalibrating}
+        analysisEngine={analysisEngine}
+        onRecalibrate={recalibrate}
         availableMics={availableMics}
         selectedDeviceId={selectedDeviceId}
         onMicChange={switchMicrophone}
+        micStatus={micStatus}
+        preferredMicLabel={preferredMicLabel}
         isMuted={isMuted}
         onMuteToggle={handleMuteToggle}
+        playback={
+          sourceKind === 'media-element'
+            ? {
+                ...player.playback,
+                onPlay: player.play,
+                onPause: player.pause,
+                onSeek: player.seek,
+                onLoopChange: player.setLoop,
+                onUseMicrophone: handleUseMicrophone,
+              }
+            : null
+        }
+        timeline={{
+          ...timeline.status,
+          onRecord: timeline.startRecording,
+          onStopRecording: timeline.stopRecording,
+          onLoad: handleJsonFile,
+          onStopReplay: timeline.stopReplay,
+          onLoopChange: timeline.setLoop,
+        }}
+        presets={{
+          presets: presets.presets.map((p) => ({ name: p.name, builtIn: isBuiltInPreset(p.name) })),
+          activeName: presets.activeName,
+          isTransitioning: presets.isTransitioning,
+          onApply: presets.applyPreset,
+          onSave: presets.savePreset,
+          onDelete: presets.deletePreset,
+          onExport: presets.exportPreset,
+          onImport: handleJsonFile,
+        }}
+        video={{
+          ...video.status,
+          options: video.options,
+          onOptionsChange: video.setOptions,
+          onStart: video.start,
+          onStop: video.stop,
+        }}
+        offlineRender={{
+          ...offlineRender.status,
+          options: offlineRender.options,
+          onOptionsChange: offlineRender.setOptions,
+          onRender: offlineRender.start,
+          onCancel: offlineRender.cancel,
+        }}
+        feed={{
+          url: feed.url,
+          status: feed.status,
+          onConnect: handleConnectFeed,
+          onDisconnect: feed.disconnect,
+        }}
+        conversation={{
+          layout: conversation.layout,
+          onLayoutChange: conversation.setLayout,
+          agentLabel: conversation.agentLabel,
+          agentIsFeed: isFeeding,
+          agentPalette: conversation.agentPalette,
+          onAgentPaletteChange: conversation.setAgentPalette,
+          onLoadAgentAudio: handleLoadAgentAudio,
+          onStopAgent: conversation.stopAgent,
+        }}
+        palette={{
+          palettes: palettes.palettes,
+          isTransitioning: palettes.isTransitioning,
+          onApply: palettes.applyPalette,
+          onEdit: palettes.editPalette,
+        }}
       />
 
+      {/* Video countdown */}
+      {video.status.mode === 'countdown' && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            fontFamily: '"Red Hat Mono", monospace',
+            fontSize: 96,
+            fontWeight: 600,
+            color: '#e60278',
+            zIndex: 200,
+            pointerEvents: 'none',
+          }}
+        >
+          {video.status.countdown}
+        </div>
+      )}
+
+      {/* Drop target highlight while an audio file is dragged over the canvas */}
+      {isDraggingFile && (
+        <div
+          style={{
+            position: 'absolute',
+            inset: 16,
+            border: '2px dashed #e60278',
+            borderRadius: 24,
+            background: 'rgba(255, 255, 255, 0.35)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontFamily: '"Red Hat Mono", monospace',
+            fontSize: 16,
+            fontWeight: 600,
+            color: '#e60278',
+            zIndex: 200,
+            pointerEvents: 'none',
+          }}
+        >
+          Drop a WAV, MP3 or OGG file to play it through the blob, or a timeline / preset .json
+        </div>
+      )}
+
+      {/* Microphone failure — recovery steps in place of the button */}
+      {micError && (
+        <MicErrorScreen
+          error={micError}
+          availableMics={availableMics}
+          onRetry={(deviceId) => handleEnableMic(deviceId)}
+          onDismiss={clearMicError}
+        />
+      )}
+
       {/* Enable microphone button — matches reference project exactly */}
-      {showButton && (
+      {showButton && !micError && (
         <>
           <div
             style={{
@@ -111,7 +434,7 @@ export default function App() {
             }}
           />
           <button
-            onClick={handleEnableMic}
+            onClick={() => handleEnableMic()}
             onMouseEnter={() => setButtonHovered(true)}
             onMouseLeave={() => {
               setButtonHovered(false);
@@ -162,6 +485,24 @@ export default function App() {
             </svg>
             Enable microphone
           </button>
+          <div
+            style={{
+              position: 'absolute',
+              top: 'calc(50% + 56px)',
+              left: '50%',
+              transform: 'translateX(-50%)',
+              fontFamily: '"Red Hat Mono", monospace',
+              fontSize: 12,
+              color: '#5a6881',
+              whiteSpace: 'nowrap',
+              opacity: buttonFading ? 0 : 1,
+              transition: 'opacity 0.5s ease',
+              pointerEvents: 'none',
+              zIndex: 100,
+            }}
+          >
+            or drop an audio file anywhere
+          </div>
         </>
       )}
     </div>
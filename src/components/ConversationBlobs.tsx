@@ -0,0 +1,94 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { VoiceReactiveBlob } from './VoiceReactiveBlob';
+import { PaletteLights } from './PaletteLights';
+import { createDefaultLook } from '../lib/blobLook';
+import type { BlobLook } from '../lib/blobLook';
+import { blendLooks, createTurnTracker, createVoiceDataMixer } from '../lib/conversation';
+import type { ConversationLayout } from '../lib/conversation';
+import { createEmptyVoiceData } from '../lib/voiceAnalyser';
+import type { VoiceData } from '../hooks/useVoiceAnalyser';
+
+/** Two-blob layouts: distance from centre and size of each blob */
+const SIDE_BY_SIDE_OFFSET = 1.05;
+const ORBIT_RADIUS = 0.95;
+const ORBIT_SPEED = 0.25; // rad/s
+const PARTY_SCALE = 0.62;
+/** Extra size for whoever holds the turn */
+const TURN_SCALE_BOOST = 0.18;
+
+interface Party {
+  voiceData: React.RefObject<VoiceData>;
+  look: BlobLook;
+}
+
+interface ConversationBlobsProps {
+  layout: Exclude<ConversationLayout, 'off'>;
+  user: Party;
+  agent: Party;
+}
+
+/**
+ * The user's and the agent's voices in one scene: two blobs (side by side or
+ * orbiting, the speaker a little larger) or one blob mixing both, its look
+ * blended towards whoever is talking. Brings its own palette lights.
+ */
+export function ConversationBlobs({ layout, user, agent }: ConversationBlobsProps) {
+  const userGroup = useRef<THREE.Group>(null);
+  const agentGroup = useRef<THREE.Group>(null);
+  const turnTracker = useMemo(() => createTurnTracker(), []);
+  const orbitAngle = useRef(0);
+  // Blend layout — the mixed frame and look the single blob reads
+  const mixedData = useRef<VoiceData>(createEmptyVoiceData());
+  const mixer = useMemo(() => createVoiceDataMixer(), []);
+  const mixedLook = useMemo(() => createDefaultLook(), []);
+
+  useFrame((_, delta) => {
+    const dt = Math.min(delta, 0.1);
+    const turn = turnTracker.update(user.voiceData.current, agent.voiceData.current, dt);
+
+    if (layout === 'blend') {
+      mixer.mix(mixedData.current, user.voiceData.current, agent.voiceData.current, turn);
+      blendLooks(mixedLook, user.look, agent.look, turn);
+      return;
+    }
+
+    const u = userGroup.current;
+    const a = agentGroup.current;
+    if (!u || !a) return;
+    if (layout === 'orbit') {
+      orbitAngle.current += dt * ORBIT_SPEED;
+      const x = Math.cos(orbitAngle.current) * ORBIT_RADIUS;
+      const z = Math.sin(orbitAngle.current) * ORBIT_RADIUS;
+      u.position.set(x, z * 0.25, z);
+      a.position.set(-x, -z * 0.25, -z);
+    } else {
+      u.position.set(-SIDE_BY_SIDE_OFFSET, 0, 0);
+      a.position.set(SIDE_BY_SIDE_OFFSET, 0, 0);
+    }
+    u.scale.setScalar(PARTY_SCALE + TURN_SCALE_BOOST * (1 - turn));
+    a.scale.setScalar(PARTY_SCALE + TURN_SCALE_BOOST * turn);
+  });
+
+  if (layout === 'blend') {
+    return (
+      <>
+        <PaletteLights look={mixedLook} />
+        <VoiceReactiveBlob voiceData={mixedData} look={mixedLook} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <PaletteLights look={user.look} />
+      <group ref={userGroup}>
+        <VoiceReactiveBlob voiceData={user.voiceData} look={user.look} />
+      </group>
+      <group ref={agentGroup}>
+        <VoiceReactiveBlob voiceData={agent.voiceData} look={agent.look} primary={false} />
+      </group>
+    </>
+  );
+}
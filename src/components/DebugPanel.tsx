@@ -1,15 +1,143 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState } from 'react';
 import type { CSSProperties } from 'react';
-import { debugStore } from '../lib/debugStore';
-import type { MicDevice } from '../hooks/useVoiceAnalyser';
+import { settingsStore } from '../lib/debugStore';
+import { blobLook, lookStore } from '../lib/blobLook';
+import { LIGHT_KEYS, MAX_PALETTE_STOPS, matchPalette, serializePalette } from '../lib/palette';
+import type { LightKey, PaletteColors, PaletteStop } from '../lib/palette';
+import { levelsStore } from '../lib/levelsStore';
+import {
+  ASSISTANT_STATES,
+  assistantStore,
+  releaseAssistantState,
+  setAssistantState,
+} from '../lib/assistantState';
+import { resetSettings } from '../lib/settingsPersistence';
+import { useStore } from '../hooks/useStore';
+import type { PitchTarget, TimbreSource } from '../lib/debugStore';
+import type { AnalysisEngine, MicDevice, MicStatus } from '../hooks/useVoiceAnalyser';
+import type { PlaybackState } from '../hooks/useAudioFilePlayer';
+import type { TimelineStatus } from '../hooks/useVoiceTimeline';
+import type { VideoRecordingStatus } from '../hooks/useVideoRecorder';
+import { clampRenderSize, OFFLINE_FRAME_RATES, OFFLINE_RESOLUTIONS } from '../hooks/useOfflineRender';
+import type { OfflineRenderSettings, OfflineRenderStatus } from '../hooks/useOfflineRender';
+import { RECORDING_BITRATES, RECORDING_HEIGHTS } from '../lib/videoRecorder';
+import type { RecordingHeight, RecordingOptions } from '../lib/videoRecorder';
+import type { FeedStatus } from '../lib/levelFeed';
+import { CONVERSATION_LAYOUTS } from '../lib/conversation';
+import type { ConversationLayout } from '../lib/conversation';
+import { FFT_SIZES, MAX_BAND_HZ } from '../lib/frequencyBands';
+import type { FrequencyBand } from '../lib/frequencyBands';
+import {
+  createRouteId,
+  MOD_OFFSET_LIMIT,
+  MOD_SOURCES,
+  MOD_TARGETS,
+  MOD_TIME_LIMIT_S,
+} from '../lib/modulation';
+import type { ModCurve, ModRoute, ModSource, ModTarget } from '../lib/modulation';
+
+/** Transport state + controls shown instead of the mic picker in file mode. */
+export interface PlaybackControls extends PlaybackState {
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onUseMicrophone: () => void;
+}
+
+/** Record / replay controls for VoiceData timelines. */
+export interface TimelineControls extends TimelineStatus {
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onLoad: (file: File) => void;
+  onStopReplay: () => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
+/** Canvas + audio video capture. */
+export interface VideoControls extends VideoRecordingStatus {
+  options: RecordingOptions;
+  onOptionsChange: (patch: Partial<RecordingOptions>) => void;
+  onStart: () => void;
+  /** Cancels a countdown, or stops and downloads the take */
+  onStop: () => void;
+}
+
+/** Frame-accurate render of an audio file to a PNG sequence. */
+export interface OfflineRenderControls extends OfflineRenderStatus {
+  options: OfflineRenderSettings;
+  onOptionsChange: (patch: Partial<OfflineRenderSettings>) => void;
+  onRender: (file: File) => void;
+  onCancel: () => void;
+}
+
+/** External WebSocket level feed. */
+export interface FeedControls {
+  /** Connected (or reconnecting) URL; null when not using a feed */
+  url: string | null;
+  status: FeedStatus | null;
+  /** Returns false when the URL is invalid */
+  onConnect: (url: string) => boolean;
+  onDisconnect: () => void;
+}
+
+/** Two-party mode: layout plus the agent's voice and palette. */
+export interface ConversationControls {
+  layout: ConversationLayout;
+  onLayoutChange: (layout: ConversationLayout) => void;
+  /** What's playing as the agent ('' when nothing) */
+  agentLabel: string;
+  /** The level feed is connected and stands in for the agent */
+  agentIsFeed: boolean;
+  agentPalette: string;
+  onAgentPaletteChange: (name: string) => void;
+  onLoadAgentAudio: (file: File) => void;
+  onStopAgent: () => void;
+}
+
+/** Preset picker / library actions. */
+export interface PresetControls {
+  presets: { name: string; builtIn: boolean }[];
+  activeName: string | null;
+  isTransitioning: boolean;
+  onApply: (name: string) => void;
+  /** Returns false when the name is empty or reserved */
+  onSave: (name: string) => boolean;
+  onDelete: (name: string) => void;
+  onExport: (name: string) => void;
+  onImport: (file: File) => void;
+}
+
+/** Built-in palettes plus live editing of the current one */
+export interface PaletteControls {
+  palettes: string[];
+  isTransitioning: boolean;
+  onApply: (name: string) => void;
+  onEdit: (colors: PaletteColors) => void;
+}
 
 interface DebugPanelProps {
   isActive: boolean;
+  isSpeaking: boolean;
+  isCalibrating: boolean;
+  analysisEngine: AnalysisEngine | null;
+  onRecalibrate: () => void;
   availableMics: MicDevice[];
   selectedDeviceId: string | null;
   onMicChange: (deviceId: string) => void;
+  micStatus: MicStatus;
+  /** The device the session wants to be on (shown while falling back) */
+  preferredMicLabel: string;
   isMuted: boolean;
   onMuteToggle: () => void;
+  playback: PlaybackControls | null;
+  timeline: TimelineControls;
+  video: VideoControls;
+  offlineRender: OfflineRenderControls;
+  feed: FeedControls;
+  conversation: ConversationControls;
+  presets: PresetControls;
+  palette: PaletteControls;
 }
 
 // Design tokens from Figma
@@ -35,6 +163,81 @@ function sliderStyle(value: number, min: number, max: number): CSSProperties {
   };
 }
 
+function formatTime(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+const inputStyle: CSSProperties = {
+  height: 28,
+  padding: '0 6px',
+  borderRadius: 6,
+  border: `1px solid ${colors.border}`,
+  background: '#F7F8FB',
+  color: colors.text,
+  fontSize: 12,
+  fontFamily: '"Red Hat Mono", monospace',
+  outline: 'none',
+};
+
+const smallButtonStyle: CSSProperties = {
+  height: 32,
+  padding: '0 12px',
+  borderRadius: 6,
+  border: `1px solid ${colors.border}`,
+  background: '#F7F8FB',
+  color: colors.text,
+  fontSize: 12,
+  fontFamily: '"Red Hat Mono", monospace',
+  cursor: 'pointer',
+};
+
+const MOD_SOURCE_LABELS: Record<Exclude<ModSource, 'band'>, string> = {
+  amplitude: 'Amplitude',
+  low: 'Low energy',
+  mid: 'Mid energy',
+  high: 'High energy',
+  midHigh: 'Mid/high energy',
+  pitch: 'Pitch',
+  pitchConfidence: 'Voicing',
+  speaking: 'Speaking',
+  brightness: 'Brightness',
+  rolloff: 'Rolloff',
+  flatness: 'Breathiness',
+  zcr: 'Zero crossings',
+};
+
+/** Route source as a select value — bands are listed individually as band:<name> */
+function routeSourceValue(route: ModRoute) {
+  return route.source === 'band' ? `band:${route.band ?? ''}` : route.source;
+}
+
+const LAYOUT_LABELS: Record<ConversationLayout, string> = {
+  off: 'Off',
+  'side-by-side': 'Side by side',
+  orbit: 'Orbit',
+  blend: 'Blend',
+};
+
+const swatchStyle: CSSProperties = {
+  width: 32,
+  height: 28,
+  padding: 2,
+  borderRadius: 6,
+  border: `1px solid ${colors.border}`,
+  background: '#F7F8FB',
+  cursor: 'pointer',
+};
+
+const LIGHT_LABELS: Record<LightKey, string> = {
+  ambient: 'Ambient',
+  key: 'Key light',
+  fill: 'Fill light',
+  rim: 'Rim light',
+  top: 'Top light',
+};
+
 function levelBarStyle(value: number): CSSProperties {
   return {
     width: `${Math.min(100, value * 100)}%`,
@@ -47,58 +250,238 @@ function levelBarStyle(value: number): CSSProperties {
 
 export function DebugPanel({
   isActive,
+  isSpeaking,
+  isCalibrating,
+  analysisEngine,
+  onRecalibrate,
   availableMics,
   selectedDeviceId,
   onMicChange,
+  micStatus,
+  preferredMicLabel,
   isMuted,
   onMuteToggle,
+  playback,
+  timeline,
+  video,
+  offlineRender,
+  feed,
+  conversation,
+  presets,
+  palette,
 }: DebugPanelProps) {
-  const [levels, setLevels] = useState({ bass: '0.000', mid: '0.000', high: '0.000' });
-  const [sensitivity, setSensitivity] = useState(debugStore.sensitivity);
-  const [noiseGate, setNoiseGate] = useState(debugStore.noiseGate);
-  const [animationSpeed, setAnimationSpeed] = useState(debugStore.animationSpeed);
-
-  // Poll audio levels for display
-  useEffect(() => {
-    if (!isActive) return;
-    const interval = setInterval(() => {
-      // Read from the voiceData ref indirectly via debugStore isn't ideal,
-      // so we expose a global for the panel to read. The panel imports
-      // this from the hook's returned ref in the parent -- but for the
-      // level display we use a simple polling approach via a global.
-      const el = document.getElementById('__voice_data');
-      if (el) {
-        try {
-          const d = JSON.parse(el.dataset.levels || '{}');
-          setLevels({
-            bass: (d.low ?? 0).toFixed(3),
-            mid: (d.mid ?? 0).toFixed(3),
-            high: (d.high ?? 0).toFixed(3),
-          });
-        } catch { /* ignore */ }
-      }
-    }, 100);
-    return () => clearInterval(interval);
-  }, [isActive]);
+  const levels = useStore(levelsStore, (l) => l.bands);
+  const pitch = {
+    hz: useStore(levelsStore, (l) => l.pitchHz),
+    confidence: useStore(levelsStore, (l) => l.pitchConfidence),
+  };
+  const timbre = {
+    centroidHz: useStore(levelsStore, (l) => l.centroidHz),
+    flatness: useStore(levelsStore, (l) => l.flatness),
+    zeroCrossingRate: useStore(levelsStore, (l) => l.zeroCrossingRate),
+  };
+  const pitchTarget = useStore(settingsStore, (s) => s.pitchTarget);
+  const timbreSources = {
+    roughness: useStore(settingsStore, (s) => s.roughnessSource),
+    iridescence: useStore(settingsStore, (s) => s.iridescenceSource),
+    sheen: useStore(settingsStore, (s) => s.sheenSource),
+  };
+  const vadGate = useStore(settingsStore, (s) => s.vadGate);
+  const adaptiveGate = useStore(settingsStore, (s) => s.adaptiveGate);
+  const onsetPulse = useStore(settingsStore, (s) => s.onsetPulse);
+  const bands = useStore(settingsStore, (s) => s.bands);
+  const modRoutes = useStore(settingsStore, (s) => s.modRoutes);
+  const fftSize = useStore(settingsStore, (s) => s.fftSize);
+  const sensitivity = useStore(settingsStore, (s) => s.sensitivity);
+  const noiseGate = useStore(settingsStore, (s) => s.noiseGate);
+  const animationSpeed = useStore(settingsStore, (s) => s.animationSpeed);
+  const assistantState = useStore(assistantStore, (s) => s.state);
+  const assistantOwner = useStore(assistantStore, (s) => s.owner);
+  const [presetName, setPresetName] = useState('');
+  const [feedUrl, setFeedUrl] = useState('ws://localhost:8787');
+  const [feedUrlInvalid, setFeedUrlInvalid] = useState(false);
+  // Palette colours live in blobLook; re-read them whenever the look changes
+  useStore(lookStore, () => lookStore.version);
+  const paletteColors = serializePalette(blobLook);
+  const activePalette = palette.isTransitioning ? null : matchPalette(paletteColors);
+  const offlineSize = `${offlineRender.options.width}x${offlineRender.options.height}`;
+  const isPresetOfflineSize = OFFLINE_RESOLUTIONS.some((r) => `${r.width}x${r.height}` === offlineSize);
+
+  const handleConnectFeed = () => {
+    setFeedUrlInvalid(!feed.onConnect(feedUrl.trim()));
+  };
 
   const handleSensitivity = (v: string) => {
-    const val = parseFloat(v);
-    setSensitivity(val);
-    debugStore.sensitivity = val;
+    settingsStore.set({ sensitivity: parseFloat(v) });
   };
 
   const handleNoiseGate = (v: string) => {
-    const val = parseFloat(v);
-    setNoiseGate(val);
-    debugStore.noiseGate = val;
+    settingsStore.set({ noiseGate: parseFloat(v) });
+    // Moving the slider is a manual override of any calibrated per-band gates
+    if (bands.some((b) => b.gate !== undefined)) {
+      commitBands(bands.map(({ gate: _gate, ...b }) => b));
+    }
+  };
+
+  const handleOnsetPulse = (v: string) => {
+    settingsStore.set({ onsetPulse: parseFloat(v) });
+  };
+
+  const handleAdaptiveGate = (val: boolean) => {
+    settingsStore.set({ adaptiveGate: val });
   };
 
   const handleAnimationSpeed = (v: string) => {
+    settingsStore.set({ animationSpeed: parseFloat(v) });
+  };
+
+  const commitBands = (next: FrequencyBand[]) => {
+    settingsStore.set({ bands: next });
+  };
+
+  const updateBand = (index: number, patch: Partial<FrequencyBand>) => {
+    // Band names key VoiceData.bands, so keep them unique and non-empty
+    if (patch.name !== undefined) {
+      const name = patch.name.trim();
+      if (!name || bands.some((b, i) => i !== index && b.name === name)) return;
+      patch = { ...patch, name };
+    }
+    commitBands(bands.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+  };
+
+  /** Hz fields accept anything in range while typing; an empty range is widened once editing ends */
+  const handleBandHz = (index: number, key: 'minHz' | 'maxHz', v: string) => {
+    updateBand(index, { [key]: Math.min(MAX_BAND_HZ, Math.max(0, parseFloat(v) || 0)) });
+  };
+
+  const settleBandRange = (index: number) => {
+    const { minHz, maxHz } = bands[index];
+    if (maxHz > minHz) return;
+    if (minHz < MAX_BAND_HZ) updateBand(index, { maxHz: Math.min(MAX_BAND_HZ, minHz + 10) });
+    else updateBand(index, { minHz: MAX_BAND_HZ - 10 });
+  };
+
+  const addBand = () => {
+    const last = bands[bands.length - 1];
+    let n = bands.length + 1;
+    while (bands.some((b) => b.name === `band${n}`)) n++;
+    const minHz = Math.min(last?.maxHz ?? 0, MAX_BAND_HZ - 2000);
+    commitBands([...bands, { name: `band${n}`, minHz, maxHz: minHz + 2000, gain: 1.0 }]);
+  };
+
+  const removeBand = (index: number) => {
+    commitBands(bands.filter((_, i) => i !== index));
+  };
+
+  const commitModRoutes = (next: ModRoute[]) => {
+    settingsStore.set({ modRoutes: next });
+  };
+
+  const updateModRoute = (index: number, patch: Partial<ModRoute>) => {
+    commitModRoutes(modRoutes.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const handleRouteSource = (index: number, v: string) => {
+    if (v.startsWith('band:')) updateModRoute(index, { source: 'band', band: v.slice(5) });
+    else updateModRoute(index, { source: v as ModSource, band: undefined });
+  };
+
+  /** Number fields ignore unparsable input (e.g. a lone minus sign) rather than zeroing */
+  const handleRouteNumber = (
+    index: number,
+    key: 'min' | 'max' | 'attack' | 'release',
+    v: string
+  ) => {
+    const val = parseFloat(v);
+    if (!Number.isFinite(val)) return;
+    // Same ranges as the persisted schema, so a saved route always loads back
+    updateModRoute(index, {
+      [key]:
+        key === 'attack' || key === 'release'
+          ? Math.min(MOD_TIME_LIMIT_S, Math.max(0, val))
+          : Math.min(MOD_OFFSET_LIMIT, Math.max(-MOD_OFFSET_LIMIT, val)),
+    });
+  };
+
+  const addModRoute = () => {
+    commitModRoutes([
+      ...modRoutes,
+      {
+        id: createRouteId(),
+        source: 'amplitude',
+        target: 'distort',
+        min: 0,
+        max: 0.1,
+        curve: 'linear',
+        attack: 0.1,
+        release: 0.4,
+      },
+    ]);
+  };
+
+  const removeModRoute = (index: number) => {
+    commitModRoutes(modRoutes.filter((_, i) => i !== index));
+  };
+
+  const editPalette = (patch: Partial<PaletteColors>) => {
+    palette.onEdit({ ...paletteColors, ...patch });
+  };
+
+  const updateStop = (index: number, patch: Partial<PaletteStop>) => {
+    editPalette({
+      stops: paletteColors.stops.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    });
+  };
+
+  /** Number fields ignore unparsable input rather than zeroing */
+  const handleStopNumber = (index: number, key: 'position' | 'width' | 'weight', v: string) => {
     const val = parseFloat(v);
-    setAnimationSpeed(val);
-    debugStore.animationSpeed = val;
+    if (!Number.isFinite(val)) return;
+    updateStop(index, { [key]: key === 'width' ? Math.max(0.01, val) : Math.max(0, val) });
+  };
+
+  const addStop = () => {
+    const last = paletteColors.stops[paletteColors.stops.length - 1];
+    editPalette({
+      stops: [...paletteColors.stops, { ...last, position: Math.min(1, last.position + 0.1) }],
+    });
+  };
+
+  const removeStop = (index: number) => {
+    editPalette({ stops: paletteColors.stops.filter((_, i) => i !== index) });
+  };
+
+  const handleFftSize = (v: string) => {
+    settingsStore.set({ fftSize: parseInt(v, 10) });
+  };
+
+  const handlePitchTarget = (v: string) => {
+    settingsStore.set({ pitchTarget: v as PitchTarget });
+  };
+
+  const handleTimbreSource = (prop: keyof typeof timbreSources, v: string) => {
+    settingsStore.set({ [`${prop}Source`]: v as TimbreSource });
+  };
+
+  const handleSavePreset = () => {
+    if (presets.onSave(presetName)) setPresetName('');
   };
 
+  const activePreset = presets.presets.find((p) => p.name === presets.activeName);
+
+  const handleResetDefaults = () => {
+    resetSettings(settingsStore);
+  };
+
+  const handleVadGate = (val: boolean) => {
+    settingsStore.set({ vadGate: val });
+  };
+
+  const calibratedGates = bands
+    .filter((b) => b.gate !== undefined)
+    .map((b) => `${b.name} ${((b.gate ?? 0) * 100).toFixed(0)}%`)
+    .join(' · ');
+
   if (!isActive) return null;
 
   return (
@@ -153,77 +536,795 @@ export function DebugPanel({
           padding: '48px 24px 56px 24px',
           zIndex: 100,
           width: 358,
+          maxHeight: 'calc(100vh - 40px)',
+          overflowY: 'auto',
         }}
       >
-        {/* Microphone */}
+        {playback ? (
+          /* Audio file playback */
+          <div style={{ marginBottom: 48 }}>
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginBottom: 12,
+              }}
+            >
+              <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+                Audio file
+              </label>
+              <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+                {formatTime(playback.currentTime)} / {formatTime(playback.duration)}
+              </span>
+            </div>
+            <div
+              style={{
+                color: colors.textMuted,
+                fontSize: 12,
+                marginBottom: 16,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {playback.fileName}
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={playback.duration || 0}
+              step="0.01"
+              value={playback.currentTime}
+              onChange={(e) => playback.onSeek(parseFloat(e.target.value))}
+              className="debug-slider"
+              style={sliderStyle(playback.currentTime, 0, playback.duration || 1)}
+            />
+            <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+              <button
+                onClick={playback.isPlaying ? playback.onPause : playback.onPlay}
+                style={smallButtonStyle}
+              >
+                {playback.isPlaying ? 'Pause' : 'Play'}
+              </button>
+              <button
+                onClick={() => playback.onLoopChange(!playback.loop)}
+                style={{
+                  ...smallButtonStyle,
+                  background: playback.loop ? colors.text : '#F7F8FB',
+                  color: playback.loop ? '#ffffff' : colors.text,
+                }}
+              >
+                Loop
+              </button>
+              <button
+                onClick={playback.onUseMicrophone}
+                style={{ ...smallButtonStyle, marginLeft: 'auto' }}
+              >
+                Use microphone
+              </button>
+            </div>
+          </div>
+        ) : (
+          /* Microphone */
+          <div style={{ marginBottom: 48 }}>
+            <label
+              style={{
+                display: 'block',
+                marginBottom: 12,
+                color: colors.text,
+                fontSize: 14,
+                fontWeight: 600,
+              }}
+            >
+              Microphone
+            </label>
+            <div
+              style={{
+                position: 'relative',
+                background: '#F7F8FB',
+                border: `1px solid ${colors.border}`,
+                borderRadius: 6,
+                height: 40,
+              }}
+            >
+              <select
+                value={selectedDeviceId || ''}
+                onChange={(e) => onMicChange(e.target.value)}
+                style={{
+                  width: '100%',
+                  height: '100%',
+                  padding: '0 40px 0 12px',
+                  background: 'transparent',
+                  border: 'none',
+                  color: colors.text,
+                  fontSize: 12,
+                  fontFamily: '"Red Hat Mono", monospace',
+                  cursor: 'pointer',
+                  outline: 'none',
+                  appearance: 'none',
+                  WebkitAppearance: 'none' as const,
+                  textOverflow: 'ellipsis',
+                  overflow: 'hidden',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {micStatus === 'lost' && <option value="">No microphone</option>}
+                {availableMics.map((mic) => (
+                  <option key={mic.deviceId} value={mic.deviceId}>
+                    {mic.label}
+                  </option>
+                ))}
+              </select>
+              {/* Chevron */}
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                style={{
+                  position: 'absolute',
+                  right: 12,
+                  top: '50%',
+                  transform: 'translateY(-50%)',
+                  pointerEvents: 'none',
+                }}
+              >
+                <path
+                  d="M7.29102 8.54163C7.04992 8.54163 6.83031 8.68029 6.72668 8.89804C6.62307 9.11571 6.65391 9.37363 6.80595 9.56071L9.51427 12.894C9.63293 13.0401 9.81118 13.125 9.99935 13.125C10.1876 13.125 10.3658 13.0401 10.4844 12.894L13.1928 9.56071C13.3448 9.37363 13.3757 9.11571 13.272 8.89804C13.1684 8.68029 12.9488 8.54163 12.7077 8.54163H7.29102Z"
+                  fill={colors.text}
+                />
+              </svg>
+            </div>
+            {micStatus !== 'connected' && (
+              <div style={{ color: colors.pink, fontSize: 12, marginTop: 12 }}>
+                {micStatus === 'fallback'
+                  ? `${preferredMicLabel || 'Selected microphone'} disconnected — using the default input until it's back`
+                  : 'No microphone connected — waiting for one to be plugged in'}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Assistant state */}
         <div style={{ marginBottom: 48 }}>
           <label
             style={{
               display: 'block',
-              marginBottom: 12,
               color: colors.text,
               fontSize: 14,
               fontWeight: 600,
+              marginBottom: 16,
             }}
           >
-            Microphone
+            Assistant state
           </label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+            <button
+              onClick={releaseAssistantState}
+              title="Follow the input"
+              style={{
+                ...smallButtonStyle,
+                ...(assistantOwner === 'auto' && {
+                  background: colors.text,
+                  borderColor: colors.text,
+                  color: '#ffffff',
+                }),
+              }}
+            >
+              auto
+            </button>
+            {ASSISTANT_STATES.map((state) => (
+              <button
+                key={state}
+                onClick={() => setAssistantState(state)}
+                style={{
+                  ...smallButtonStyle,
+                  ...(assistantOwner === 'host' && state === assistantState && {
+                    background: colors.text,
+                    borderColor: colors.text,
+                    color: '#ffffff',
+                  }),
+                }}
+              >
+                {state}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Presets */}
+        <div style={{ marginBottom: 48 }}>
           <div
             style={{
-              position: 'relative',
-              background: '#F7F8FB',
-              border: `1px solid ${colors.border}`,
-              borderRadius: 6,
-              height: 40,
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
             }}
           >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Preset
+            </label>
             <select
-              value={selectedDeviceId || ''}
-              onChange={(e) => onMicChange(e.target.value)}
+              value={presets.activeName ?? ''}
+              onChange={(e) => e.target.value && presets.onApply(e.target.value)}
+              style={{ ...inputStyle, width: 180 }}
+            >
+              {!activePreset && <option value="">Custom</option>}
+              {presets.presets.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.builtIn ? p.name : `★ ${p.name}`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+            <input
+              type="text"
+              placeholder="Save current as…"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              style={{ ...inputStyle, flex: 1, minWidth: 0, height: 32 }}
+            />
+            <button onClick={handleSavePreset} style={smallButtonStyle}>
+              Save
+            </button>
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              onClick={() => activePreset && presets.onExport(activePreset.name)}
+              disabled={!activePreset}
+              style={smallButtonStyle}
+            >
+              Export
+            </button>
+            <label style={{ ...smallButtonStyle, display: 'flex', alignItems: 'center' }}>
+              Import
+              <input
+                type="file"
+                accept="application/json,.json"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) presets.onImport(file);
+                }}
+              />
+            </label>
+            {activePreset && !activePreset.builtIn && (
+              <button
+                onClick={() => presets.onDelete(activePreset.name)}
+                style={{ ...smallButtonStyle, marginLeft: 'auto' }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Palette */}
+        <div style={{ marginBottom: 48 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Palette
+            </label>
+            <select
+              value={activePalette ?? ''}
+              onChange={(e) => e.target.value && palette.onApply(e.target.value)}
+              style={{ ...inputStyle, width: 180 }}
+            >
+              {!activePalette && <option value="">Custom</option>}
+              {palette.palettes.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {paletteColors.stops.map((stop, i) => (
+            <div key={i} style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 8 }}>
+              <input
+                type="color"
+                value={stop.color}
+                onChange={(e) => updateStop(i, { color: e.target.value })}
+                style={swatchStyle}
+                aria-label="Stop colour"
+              />
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.01"
+                value={stop.position}
+                onChange={(e) => handleStopNumber(i, 'position', e.target.value)}
+                style={{ ...inputStyle, width: 56 }}
+                aria-label="Position"
+                title="Position"
+              />
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={stop.width}
+                onChange={(e) => handleStopNumber(i, 'width', e.target.value)}
+                style={{ ...inputStyle, width: 56 }}
+                aria-label="Width"
+                title="Width"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={stop.weight}
+                onChange={(e) => handleStopNumber(i, 'weight', e.target.value)}
+                style={{ ...inputStyle, width: 56 }}
+                aria-label="Weight"
+                title="Weight"
+              />
+              <button
+                onClick={() => removeStop(i)}
+                disabled={paletteColors.stops.length <= 1}
+                style={{ ...smallButtonStyle, marginLeft: 'auto', padding: '0 8px' }}
+                aria-label="Remove stop"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addStop}
+            disabled={paletteColors.stops.length >= MAX_PALETTE_STOPS}
+            style={{ ...smallButtonStyle, marginTop: 8, marginBottom: 16 }}
+          >
+            Add stop
+          </button>
+          <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 8 }}>
+            <span style={{ color: colors.text, fontSize: 14, flex: 1 }}>Sheen / background</span>
+            <input
+              type="color"
+              value={paletteColors.sheenColor}
+              onChange={(e) => editPalette({ sheenColor: e.target.value })}
+              style={swatchStyle}
+              aria-label="Sheen colour"
+              title="Sheen"
+            />
+            <input
+              type="color"
+              value={paletteColors.background}
+              onChange={(e) => editPalette({ background: e.target.value })}
+              style={swatchStyle}
+              aria-label="Background colour"
+              title="Background"
+            />
+          </div>
+          <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <span style={{ color: colors.text, fontSize: 14, flex: 1 }}>Lights</span>
+            {LIGHT_KEYS.map((key) => (
+              <input
+                key={key}
+                type="color"
+                value={paletteColors.lights[key]}
+                onChange={(e) =>
+                  editPalette({ lights: { ...paletteColors.lights, [key]: e.target.value } })
+                }
+                style={swatchStyle}
+                aria-label={LIGHT_LABELS[key]}
+                title={LIGHT_LABELS[key]}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Two-party conversation */}
+        <div style={{ marginBottom: 48 }}>
+          <label
+            style={{
+              display: 'block',
+              color: colors.text,
+              fontSize: 14,
+              fontWeight: 600,
+              marginBottom: 16,
+            }}
+          >
+            Conversation
+          </label>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginBottom: 12 }}>
+            {CONVERSATION_LAYOUTS.map((layout) => (
+              <button
+                key={layout}
+                onClick={() => conversation.onLayoutChange(layout)}
+                style={{
+                  ...smallButtonStyle,
+                  ...(layout === conversation.layout && {
+                    background: colors.text,
+                    borderColor: colors.text,
+                    color: '#ffffff',
+                  }),
+                }}
+              >
+                {LAYOUT_LABELS[layout]}
+              </button>
+            ))}
+          </div>
+          {conversation.layout !== 'off' && (
+            <>
+              <div
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  marginBottom: 8,
+                }}
+              >
+                <span style={{ color: colors.textMuted, fontSize: 12 }}>Agent palette</span>
+                <select
+                  value={conversation.agentPalette}
+                  onChange={(e) => conversation.onAgentPaletteChange(e.target.value)}
+                  style={{ ...inputStyle, width: 180 }}
+                >
+                  {palette.palettes.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                <span
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    color: colors.textMuted,
+                    fontSize: 12,
+                  }}
+                >
+                  {conversation.agentIsFeed
+                    ? 'Agent voice: level feed'
+                    : conversation.agentLabel
+                      ? `Agent voice: ${conversation.agentLabel}`
+                      : 'No agent voice'}
+                </span>
+                {conversation.agentLabel ? (
+                  <button onClick={conversation.onStopAgent} style={smallButtonStyle}>
+                    Stop
+                  </button>
+                ) : (
+                  <label style={{ ...smallButtonStyle, display: 'flex', alignItems: 'center' }}>
+                    Load agent audio
+                    <input
+                      type="file"
+                      accept="audio/*,.wav,.mp3,.ogg,.oga"
+                      style={{ display: 'none' }}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) conversation.onLoadAgentAudio(file);
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Timeline record / replay */}
+        <div style={{ marginBottom: 48 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Timeline
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {timeline.mode === 'recording' && `● ${formatTime(timeline.position / 1000)}`}
+              {timeline.mode === 'replaying' &&
+                `${formatTime(timeline.position / 1000)} / ${formatTime(timeline.duration / 1000)}`}
+            </span>
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            {timeline.mode === 'recording' ? (
+              <button onClick={timeline.onStopRecording} style={smallButtonStyle}>
+                Stop &amp; download
+              </button>
+            ) : (
+              <button
+                onClick={timeline.onRecord}
+                disabled={timeline.mode === 'replaying'}
+                style={smallButtonStyle}
+              >
+                Record
+              </button>
+            )}
+            {timeline.mode === 'replaying' ? (
+              <button onClick={timeline.onStopReplay} style={smallButtonStyle}>
+                Stop replay
+              </button>
+            ) : (
+              <label style={{ ...smallButtonStyle, display: 'flex', alignItems: 'center' }}>
+                Load replay
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) timeline.onLoad(file);
+                  }}
+                />
+              </label>
+            )}
+            <button
+              onClick={() => timeline.onLoopChange(!timeline.loop)}
               style={{
-                width: '100%',
-                height: '100%',
-                padding: '0 40px 0 12px',
-                background: 'transparent',
-                border: 'none',
-                color: colors.text,
-                fontSize: 12,
-                fontFamily: '"Red Hat Mono", monospace',
-                cursor: 'pointer',
-                outline: 'none',
-                appearance: 'none',
-                WebkitAppearance: 'none' as const,
-                textOverflow: 'ellipsis',
-                overflow: 'hidden',
-                whiteSpace: 'nowrap',
+                ...smallButtonStyle,
+                marginLeft: 'auto',
+                background: timeline.loop ? colors.text : '#F7F8FB',
+                color: timeline.loop ? '#ffffff' : colors.text,
               }}
             >
-              {availableMics.map((mic) => (
-                <option key={mic.deviceId} value={mic.deviceId}>
-                  {mic.label}
+              Loop
+            </button>
+          </div>
+        </div>
+
+        {/* Video capture */}
+        <div style={{ marginBottom: 48 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Video
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {video.mode === 'countdown' && `starting in ${video.countdown}…`}
+              {video.mode === 'recording' &&
+                `● ${formatTime(video.elapsed / 1000)} · ${video.width}×${video.height}`}
+              {video.mode === 'idle' && video.error}
+            </span>
+          </div>
+          <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+            <select
+              value={video.options.height}
+              disabled={video.mode !== 'idle'}
+              onChange={(e) =>
+                video.onOptionsChange({ height: Number(e.target.value) as RecordingHeight })
+              }
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+            >
+              {RECORDING_HEIGHTS.map((h) => (
+                <option key={h} value={h}>
+                  {h === 0 ? 'Canvas size' : `${h}p`}
                 </option>
               ))}
             </select>
-            {/* Chevron */}
-            <svg
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
+            <select
+              value={video.options.videoBitsPerSecond}
+              disabled={video.mode !== 'idle'}
+              onChange={(e) => video.onOptionsChange({ videoBitsPerSecond: Number(e.target.value) })}
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+            >
+              {RECORDING_BITRATES.map((bps) => (
+                <option key={bps} value={bps}>
+                  {bps / 1_000_000} Mbps
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            {video.mode === 'idle' ? (
+              <button onClick={video.onStart} style={smallButtonStyle}>
+                Record video
+              </button>
+            ) : (
+              <button onClick={video.onStop} style={smallButtonStyle}>
+                {video.mode === 'countdown' ? 'Cancel' : 'Stop & download'}
+              </button>
+            )}
+            <button
+              onClick={() => video.onOptionsChange({ countdown: video.options.countdown > 0 ? 0 : 3 })}
+              disabled={video.mode !== 'idle'}
               style={{
-                position: 'absolute',
-                right: 12,
-                top: '50%',
-                transform: 'translateY(-50%)',
-                pointerEvents: 'none',
+                ...smallButtonStyle,
+                marginLeft: 'auto',
+                background: video.options.countdown > 0 ? colors.text : '#F7F8FB',
+                color: video.options.countdown > 0 ? '#ffffff' : colors.text,
+              }}
+            >
+              Countdown
+            </button>
+          </div>
+        </div>
+
+        {/* Offline render */}
+        <div style={{ marginBottom: 48 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Offline render
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {offlineRender.phase === 'analysing' &&
+                `analysing ${Math.round(offlineRender.progress * 100)}%`}
+              {offlineRender.phase === 'rendering' &&
+                `frame ${Math.round(offlineRender.progress * offlineRender.frameCount)} / ${offlineRender.frameCount}`}
+              {offlineRender.phase === 'packing' && 'packing zip…'}
+              {offlineRender.phase === 'idle' && offlineRender.error}
+            </span>
+          </div>
+          <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+            <select
+              value={offlineSize}
+              disabled={offlineRender.phase !== 'idle'}
+              onChange={(e) => {
+                const [width, height] = e.target.value.split('x').map(Number);
+                offlineRender.onOptionsChange({ width, height });
               }}
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
             >
-              <path
-                d="M7.29102 8.54163C7.04992 8.54163 6.83031 8.68029 6.72668 8.89804C6.62307 9.11571 6.65391 9.37363 6.80595 9.56071L9.51427 12.894C9.63293 13.0401 9.81118 13.125 9.99935 13.125C10.1876 13.125 10.3658 13.0401 10.4844 12.894L13.1928 9.56071C13.3448 9.37363 13.3757 9.11571 13.272 8.89804C13.1684 8.68029 12.9488 8.54163 12.7077 8.54163H7.29102Z"
-                fill={colors.text}
+              {OFFLINE_RESOLUTIONS.map((r) => (
+                <option key={r.label} value={`${r.width}x${r.height}`}>
+                  {r.label} ({r.width}×{r.height})
+                </option>
+              ))}
+              {!isPresetOfflineSize && (
+                <option value={offlineSize} disabled>
+                  Custom
+                </option>
+              )}
+            </select>
+            <select
+              value={offlineRender.options.fps}
+              disabled={offlineRender.phase !== 'idle'}
+              onChange={(e) => offlineRender.onOptionsChange({ fps: Number(e.target.value) })}
+              style={{ ...inputStyle, width: 96 }}
+            >
+              {OFFLINE_FRAME_RATES.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps} fps
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 12 }}>
+            {(['width', 'height'] as const).map((key, i) => (
+              <Fragment key={key}>
+                {i > 0 && <span style={{ color: colors.textMuted, fontSize: 12 }}>×</span>}
+                {/* Committed on blur or Enter, so typing isn't clamped keystroke by keystroke */}
+                <input
+                  key={offlineRender.options[key]}
+                  type="number"
+                  step="2"
+                  defaultValue={offlineRender.options[key]}
+                  disabled={offlineRender.phase !== 'idle'}
+                  onBlur={(e) => {
+                    const val = parseFloat(e.target.value);
+                    const size = clampRenderSize(Number.isFinite(val) ? val : offlineRender.options[key]);
+                    e.target.value = String(size);
+                    offlineRender.onOptionsChange({ [key]: size });
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  style={{ ...inputStyle, width: 72 }}
+                  aria-label={key === 'width' ? 'Width' : 'Height'}
+                />
+              </Fragment>
+            ))}
+            <span style={{ color: colors.textMuted, fontSize: 12 }}>px</span>
+          </div>
+          {offlineRender.phase === 'idle' ? (
+            <label style={{ ...smallButtonStyle, display: 'inline-flex', alignItems: 'center' }}>
+              Render audio file
+              <input
+                type="file"
+                accept="audio/*,.wav,.mp3,.ogg,.oga"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) offlineRender.onRender(file);
+                }}
               />
-            </svg>
+            </label>
+          ) : (
+            <button onClick={offlineRender.onCancel} style={smallButtonStyle}>
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {/* External level feed */}
+        <div style={{ marginBottom: 48 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Level feed
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {feed.status === 'live' && '● live'}
+              {feed.status === 'stale' && 'connected — no data'}
+              {feed.status === 'connecting' && 'connecting…'}
+              {feed.status === 'reconnecting' && 'reconnecting…'}
+            </span>
           </div>
+          {feed.url ? (
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <span
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                  color: colors.textMuted,
+                  fontSize: 12,
+                }}
+              >
+                {feed.url}
+              </span>
+              <button onClick={feed.onDisconnect} style={smallButtonStyle}>
+                Disconnect
+              </button>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', gap: 8 }}>
+              <input
+                type="text"
+                value={feedUrl}
+                onChange={(e) => {
+                  setFeedUrl(e.target.value);
+                  setFeedUrlInvalid(false);
+                }}
+                onKeyDown={(e) => e.key === 'Enter' && handleConnectFeed()}
+                style={{
+                  ...inputStyle,
+                  flex: 1,
+                  minWidth: 0,
+                  height: 32,
+                  borderColor: feedUrlInvalid ? colors.pink : colors.border,
+                }}
+              />
+              <button onClick={handleConnectFeed} style={smallButtonStyle}>
+                Connect
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Sliders */}
@@ -284,6 +1385,30 @@ export function DebugPanel({
               className="debug-slider"
               style={sliderStyle(noiseGate, 0, 0.3)}
             />
+            {calibratedGates && (
+              <div style={{ color: colors.textMuted, fontSize: 12, marginTop: 12 }}>
+                Calibrated: {calibratedGates}
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+              <button
+                onClick={onRecalibrate}
+                disabled={isCalibrating}
+                style={{ ...smallButtonStyle, opacity: isCalibrating ? 0.6 : 1 }}
+              >
+                {isCalibrating ? 'Calibrating… stay quiet' : 'Recalibrate'}
+              </button>
+              <button
+                onClick={() => handleAdaptiveGate(!adaptiveGate)}
+                style={{
+                  ...smallButtonStyle,
+                  background: adaptiveGate ? colors.text : '#F7F8FB',
+                  color: adaptiveGate ? '#ffffff' : colors.text,
+                }}
+              >
+                Adapt to room
+              </button>
+            </div>
           </div>
 
           {/* Animation speed */}
@@ -314,24 +1439,9 @@ export function DebugPanel({
               style={sliderStyle(animationSpeed, 0.1, 5)}
             />
           </div>
-        </div>
-
-        {/* Audio levels */}
-        <div style={{ marginBottom: 56 }}>
-          <label
-            style={{
-              display: 'block',
-              marginBottom: 24,
-              color: colors.text,
-              fontSize: 14,
-              fontWeight: 600,
-            }}
-          >
-            Audio levels
-          </label>
 
-          {/* Bass */}
-          <div style={{ marginBottom: 24 }}>
+          {/* Onset pulse */}
+          <div style={{ marginTop: 24 }}>
             <div
               style={{
                 display: 'flex',
@@ -340,78 +1450,437 @@ export function DebugPanel({
                 marginBottom: 16,
               }}
             >
-              <span style={{ color: colors.text, fontSize: 14, fontWeight: 400 }}>Bass</span>
+              <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+                Onset pulse
+              </label>
               <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
-                {levels.bass}
+                {onsetPulse.toFixed(1)}x
               </span>
             </div>
-            <div
+            <input
+              type="range"
+              min="0"
+              max="3"
+              step="0.1"
+              value={onsetPulse}
+              onChange={(e) => handleOnsetPulse(e.target.value)}
+              className="debug-slider"
+              style={sliderStyle(onsetPulse, 0, 3)}
+            />
+          </div>
+
+          {/* Speech gate */}
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginTop: 24,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              React to speech only
+            </label>
+            <button
+              onClick={() => handleVadGate(!vadGate)}
               style={{
-                width: '100%',
-                height: 4,
-                background: colors.border,
-                borderRadius: 8,
-                overflow: 'hidden',
+                ...smallButtonStyle,
+                background: vadGate ? colors.text : '#F7F8FB',
+                color: vadGate ? '#ffffff' : colors.text,
               }}
             >
-              <div style={levelBarStyle(parseFloat(levels.bass))} />
-            </div>
+              {vadGate ? 'On' : 'Off'}
+            </button>
           </div>
+        </div>
 
-          {/* Mid */}
-          <div style={{ marginBottom: 24 }}>
-            <div
+        {/* Audio levels */}
+        <div style={{ marginBottom: 56 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 24,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Audio levels
+            </label>
+            <span
               style={{
                 display: 'flex',
-                justifyContent: 'space-between',
                 alignItems: 'center',
-                marginBottom: 16,
+                gap: 6,
+                color: colors.textMuted,
+                fontSize: 12,
+                fontWeight: 400,
               }}
             >
-              <span style={{ color: colors.text, fontSize: 14, fontWeight: 400 }}>Mid</span>
-              <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
-                {levels.mid}
-              </span>
-            </div>
-            <div
-              style={{
-                width: '100%',
-                height: 4,
-                background: colors.border,
-                borderRadius: 8,
-                overflow: 'hidden',
-              }}
+              <span
+                style={{
+                  width: 8,
+                  height: 8,
+                  borderRadius: '50%',
+                  background: isSpeaking ? colors.pink : colors.border,
+                  transition: 'background 0.15s',
+                }}
+              />
+              {isSpeaking ? 'Speaking' : 'Silent'}
+            </span>
+          </div>
+
+          {bands.map((band, i) => {
+            const level = levels[band.name] ?? 0;
+            return (
+              <div key={i} style={{ marginBottom: i === bands.length - 1 ? 0 : 24 }}>
+                <div
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    marginBottom: 16,
+                  }}
+                >
+                  <span style={{ color: colors.text, fontSize: 14, fontWeight: 400 }}>
+                    {band.name}
+                  </span>
+                  <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+                    {level.toFixed(3)}
+                  </span>
+                </div>
+                <div
+                  style={{
+                    width: '100%',
+                    height: 4,
+                    background: colors.border,
+                    borderRadius: 8,
+                    overflow: 'hidden',
+                  }}
+                >
+                  <div style={levelBarStyle(level)} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Pitch */}
+        <div style={{ marginBottom: 56 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Pitch
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {pitch.hz > 0 ? `${pitch.hz.toFixed(0)} Hz` : '—'}
+            </span>
+          </div>
+          <div
+            style={{
+              width: '100%',
+              height: 4,
+              background: colors.border,
+              borderRadius: 8,
+              overflow: 'hidden',
+              marginBottom: 16,
+            }}
+          >
+            <div style={levelBarStyle(pitch.confidence)} />
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ color: colors.text, fontSize: 14, fontWeight: 400 }}>Maps to</span>
+            <select
+              value={pitchTarget}
+              onChange={(e) => handlePitchTarget(e.target.value)}
+              style={{ ...inputStyle, width: 'auto' }}
             >
-              <div style={levelBarStyle(parseFloat(levels.mid))} />
-            </div>
+              <option value="none">Nothing</option>
+              <option value="hue">Gradient hue</option>
+              <option value="waves">Wave count</option>
+            </select>
           </div>
+        </div>
 
-          {/* High */}
-          <div>
+        {/* Timbre */}
+        <div style={{ marginBottom: 56 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Timbre
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {timbre.centroidHz > 0 ? `${timbre.centroidHz.toFixed(0)} Hz` : '—'}
+              {' · '}flat {timbre.flatness.toFixed(2)}
+              {' · '}zcr {timbre.zeroCrossingRate.toFixed(2)}
+            </span>
+          </div>
+          {(['roughness', 'iridescence', 'sheen'] as const).map((prop) => (
             <div
+              key={prop}
               style={{
                 display: 'flex',
                 justifyContent: 'space-between',
                 alignItems: 'center',
-                marginBottom: 16,
+                marginBottom: 8,
               }}
             >
-              <span style={{ color: colors.text, fontSize: 14, fontWeight: 400 }}>High</span>
-              <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
-                {levels.high}
+              <span style={{ color: colors.text, fontSize: 14, fontWeight: 400 }}>
+                {prop[0].toUpperCase() + prop.slice(1)}
               </span>
+              <select
+                value={timbreSources[prop]}
+                onChange={(e) => handleTimbreSource(prop, e.target.value)}
+                style={{ ...inputStyle, width: 'auto' }}
+              >
+                <option value="none">Fixed</option>
+                <option value="centroid">Brightness (centroid)</option>
+                <option value="rolloff">Rolloff</option>
+                <option value="flatness">Breathiness (flatness)</option>
+                <option value="zcr">Zero crossings</option>
+              </select>
             </div>
+          ))}
+        </div>
+
+        {/* Modulation matrix */}
+        <div style={{ marginBottom: 56 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Modulation
+            </label>
+            <span style={{ color: colors.textMuted, fontSize: 12, fontWeight: 400 }}>
+              {modRoutes.length} {modRoutes.length === 1 ? 'route' : 'routes'}
+            </span>
+          </div>
+          {modRoutes.map((route, i) => (
             <div
+              key={route.id}
               style={{
-                width: '100%',
-                height: 4,
-                background: colors.border,
-                borderRadius: 8,
-                overflow: 'hidden',
+                paddingBottom: 8,
+                marginBottom: 8,
+                borderBottom: i === modRoutes.length - 1 ? 'none' : `1px solid ${colors.border}`,
               }}
             >
-              <div style={levelBarStyle(parseFloat(levels.high))} />
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 6 }}>
+                <select
+                  value={routeSourceValue(route)}
+                  onChange={(e) => handleRouteSource(i, e.target.value)}
+                  style={{ ...inputStyle, width: 112 }}
+                  aria-label="Route source"
+                >
+                  {MOD_SOURCES.filter((s) => s !== 'band').map((s) => (
+                    <option key={s} value={s}>
+                      {MOD_SOURCE_LABELS[s]}
+                    </option>
+                  ))}
+                  {bands.map((b) => (
+                    <option key={b.name} value={`band:${b.name}`}>
+                      Band {b.name}
+                    </option>
+                  ))}
+                  {route.source === 'band' && !bands.some((b) => b.name === route.band) && (
+                    <option value={routeSourceValue(route)}>Band {route.band} (missing)</option>
+                  )}
+                </select>
+                <span style={{ color: colors.textMuted, fontSize: 12 }}>→</span>
+                <select
+                  value={route.target}
+                  onChange={(e) => updateModRoute(i, { target: e.target.value as ModTarget })}
+                  style={{ ...inputStyle, width: 112 }}
+                  aria-label="Route target"
+                >
+                  {MOD_TARGETS.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeModRoute(i)}
+                  style={{ ...smallButtonStyle, marginLeft: 'auto', padding: '0 8px' }}
+                  aria-label="Remove route"
+                >
+                  ×
+                </button>
+              </div>
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                <input
+                  type="number"
+                  min={-MOD_OFFSET_LIMIT}
+                  max={MOD_OFFSET_LIMIT}
+                  step="0.01"
+                  value={route.min}
+                  onChange={(e) => handleRouteNumber(i, 'min', e.target.value)}
+                  style={{ ...inputStyle, width: 52 }}
+                  aria-label="Offset at 0"
+                  title="Offset at 0"
+                />
+                <span style={{ color: colors.textMuted, fontSize: 12 }}>–</span>
+                <input
+                  type="number"
+                  min={-MOD_OFFSET_LIMIT}
+                  max={MOD_OFFSET_LIMIT}
+                  step="0.01"
+                  value={route.max}
+                  onChange={(e) => handleRouteNumber(i, 'max', e.target.value)}
+                  style={{ ...inputStyle, width: 52 }}
+                  aria-label="Offset at 1"
+                  title="Offset at 1"
+                />
+                <select
+                  value={route.curve}
+                  onChange={(e) => updateModRoute(i, { curve: e.target.value as ModCurve })}
+                  style={{ ...inputStyle, width: 'auto' }}
+                  aria-label="Curve"
+                >
+                  <option value="linear">lin</option>
+                  <option value="exp">exp</option>
+                  <option value="log">log</option>
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  max={MOD_TIME_LIMIT_S}
+                  step="0.05"
+                  value={route.attack}
+                  onChange={(e) => handleRouteNumber(i, 'attack', e.target.value)}
+                  style={{ ...inputStyle, width: 48 }}
+                  aria-label="Attack (s)"
+                  title="Attack (s)"
+                />
+                <span style={{ color: colors.textMuted, fontSize: 12 }}>/</span>
+                <input
+                  type="number"
+                  min="0"
+                  max={MOD_TIME_LIMIT_S}
+                  step="0.05"
+                  value={route.release}
+                  onChange={(e) => handleRouteNumber(i, 'release', e.target.value)}
+                  style={{ ...inputStyle, width: 48 }}
+                  aria-label="Release (s)"
+                  title="Release (s)"
+                />
+                <span style={{ color: colors.textMuted, fontSize: 12 }}>s</span>
+              </div>
+            </div>
+          ))}
+          <button onClick={addModRoute} style={{ ...smallButtonStyle, marginTop: 8 }}>
+            Add route
+          </button>
+        </div>
+
+        {/* Frequency bands */}
+        <div style={{ marginBottom: 56 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: 16,
+            }}
+          >
+            <label style={{ color: colors.text, fontSize: 14, fontWeight: 600 }}>
+              Frequency bands
+            </label>
+            <select
+              value={fftSize}
+              onChange={(e) => handleFftSize(e.target.value)}
+              style={{ ...inputStyle, width: 'auto' }}
+            >
+              {FFT_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  FFT {size}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ color: colors.textMuted, fontSize: 12, marginBottom: 16 }}>
+            {analysisEngine === 'worklet'
+              ? 'Analysed in an AudioWorklet at a fixed hop'
+              : 'Analysed per frame with an AnalyserNode'}
+          </div>
+          {bands.map((band, i) => (
+            <div key={i} style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 8 }}>
+              <input
+                value={band.name}
+                onChange={(e) => updateBand(i, { name: e.target.value })}
+                style={{ ...inputStyle, width: 72 }}
+                aria-label="Band name"
+              />
+              <input
+                type="number"
+                min="0"
+                max={MAX_BAND_HZ}
+                step="10"
+                value={band.minHz}
+                onChange={(e) => handleBandHz(i, 'minHz', e.target.value)}
+                onBlur={() => settleBandRange(i)}
+                style={{ ...inputStyle, width: 68 }}
+                aria-label="Min Hz"
+              />
+              <span style={{ color: colors.textMuted, fontSize: 12 }}>–</span>
+              <input
+                type="number"
+                min="0"
+                max={MAX_BAND_HZ}
+                step="10"
+                value={band.maxHz}
+                onChange={(e) => handleBandHz(i, 'maxHz', e.target.value)}
+                onBlur={() => settleBandRange(i)}
+                style={{ ...inputStyle, width: 68 }}
+                aria-label="Max Hz"
+              />
+              <span style={{ color: colors.textMuted, fontSize: 12 }}>Hz</span>
+              <button
+                onClick={() => removeBand(i)}
+                disabled={bands.length <= 1}
+                style={{ ...smallButtonStyle, marginLeft: 'auto', padding: '0 8px' }}
+                aria-label={`Remove ${band.name}`}
+              >
+                ×
+              </button>
             </div>
+          ))}
+          <button onClick={addBand} style={{ ...smallButtonStyle, marginTop: 8 }}>
+            Add band
+          </button>
+        </div>
+
+        {/* Reset persisted settings */}
+        <div style={{ marginBottom: 32 }}>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+            }}
+          >
+            <span style={{ color: colors.textMuted, fontSize: 12 }}>
+              Settings are saved in this browser
+            </span>
+            <button onClick={handleResetDefaults} style={smallButtonStyle}>
+              Reset to defaults
+            </button>
           </div>
         </div>
 
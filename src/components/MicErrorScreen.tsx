@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import type { CSSProperties } from 'react';
+import type { MicError, MicErrorCode } from '../lib/micErrors';
+import type { MicDevice } from '../hooks/useVoiceAnalyser';
+
+interface MicErrorScreenProps {
+  error: MicError;
+  availableMics: MicDevice[];
+  /** Retry on the given device (null = browser default) */
+  onRetry: (deviceId: string | null) => void;
+  onDismiss: () => void;
+}
+
+const colors = {
+  text: '#1c2330',
+  textMuted: '#5a6881',
+  border: '#eaecf1',
+  pink: '#e60278',
+  background: '#ffffff',
+};
+
+/** Copy and available actions per failure */
+const RECOVERY: Record<
+  MicErrorCode,
+  { title: string; steps: string[]; canRetry: boolean; canPickDevice: boolean }
+> = {
+  'permission-denied': {
+    title: 'Microphone access is blocked',
+    steps: [
+      'Click the microphone or lock icon in the address bar.',
+      'Set Microphone to "Allow" for this site.',
+      'Come back here and try again.',
+    ],
+    canRetry: true,
+    canPickDevice: false,
+  },
+  'no-device': {
+    title: 'No microphone found',
+    steps: [
+      'Plug in or connect a microphone (USB, headset or Bluetooth).',
+      'Check it is enabled in your system sound settings.',
+    ],
+    canRetry: true,
+    canPickDevice: true,
+  },
+  'device-busy': {
+    title: 'Microphone is in use',
+    steps: [
+      'Another app or tab is holding the microphone — close video calls or recorders.',
+      'Or pick a different input below.',
+    ],
+    canRetry: true,
+    canPickDevice: true,
+  },
+  'insecure-context': {
+    title: 'A secure connection is required',
+    steps: [
+      'Browsers only allow microphone access over HTTPS or on localhost.',
+      'Open this page with an https:// address.',
+    ],
+    canRetry: false,
+    canPickDevice: false,
+  },
+  unsupported: {
+    title: 'This browser can’t capture audio',
+    steps: ['Open this page in a current version of Chrome, Edge, Firefox or Safari.'],
+    canRetry: false,
+    canPickDevice: false,
+  },
+  'audio-context': {
+    title: 'Audio couldn’t start',
+    steps: [
+      'The browser refused to start its audio engine.',
+      'Try again — if it keeps failing, reload the page.',
+    ],
+    canRetry: true,
+    canPickDevice: false,
+  },
+  unknown: {
+    title: 'Couldn’t start the microphone',
+    steps: ['Something unexpected went wrong. Try again, or pick another input.'],
+    canRetry: true,
+    canPickDevice: true,
+  },
+};
+
+const primaryButtonStyle: CSSProperties = {
+  height: 48,
+  padding: '0 28px',
+  fontSize: 14,
+  fontWeight: 600,
+  fontFamily: '"Red Hat Mono", monospace',
+  color: '#ffffff',
+  background: colors.pink,
+  border: 'none',
+  borderRadius: 999,
+  cursor: 'pointer',
+};
+
+const secondaryButtonStyle: CSSProperties = {
+  ...primaryButtonStyle,
+  color: colors.text,
+  background: '#F7F8FB',
+  border: `1px solid ${colors.border}`,
+};
+
+/**
+ * Recovery card shown in place of the enable-microphone button when capture
+ * fails: what went wrong, how to fix it, and retry / device choice.
+ */
+export function MicErrorScreen({ error, availableMics, onRetry, onDismiss }: MicErrorScreenProps) {
+  const recovery = RECOVERY[error.code];
+  // Unlabelled devices (no permission yet) can't be told apart — don't offer them
+  const choices = availableMics.filter((mic) => mic.deviceId && mic.deviceId !== 'default');
+  const [deviceId, setDeviceId] = useState<string>('');
+
+  const secureUrl =
+    error.code === 'insecure-context' && location.protocol === 'http:'
+      ? location.href.replace(/^http:/, 'https:')
+      : null;
+
+  return (
+    <>
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          backdropFilter: 'blur(8px)',
+          WebkitBackdropFilter: 'blur(8px)',
+          background: 'rgba(255, 255, 255, 0.3)',
+          zIndex: 99,
+        }}
+      />
+      <div
+        role="alertdialog"
+        aria-labelledby="mic-error-title"
+        style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          width: 420,
+          maxWidth: 'calc(100vw - 40px)',
+          padding: '40px 32px 32px',
+          borderRadius: 16,
+          background: colors.background,
+          fontFamily: '"Red Hat Mono", monospace',
+          zIndex: 100,
+        }}
+      >
+        <h2
+          id="mic-error-title"
+          style={{ margin: '0 0 16px', color: colors.text, fontSize: 18, fontWeight: 600 }}
+        >
+          {recovery.title}
+        </h2>
+        <ol style={{ margin: '0 0 24px', paddingLeft: 20, color: colors.textMuted, fontSize: 13, lineHeight: 1.6 }}>
+          {recovery.steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+
+        {secureUrl && (
+          <a
+            href={secureUrl}
+            style={{ display: 'block', marginBottom: 24, color: colors.pink, fontSize: 13 }}
+          >
+            Open over HTTPS
+          </a>
+        )}
+
+        {recovery.canPickDevice && choices.length > 0 && (
+          <select
+            value={deviceId}
+            onChange={(e) => setDeviceId(e.target.value)}
+            style={{
+              width: '100%',
+              height: 40,
+              marginBottom: 24,
+              padding: '0 12px',
+              borderRadius: 6,
+              border: `1px solid ${colors.border}`,
+              background: '#F7F8FB',
+              color: colors.text,
+              fontSize: 12,
+              fontFamily: '"Red Hat Mono", monospace',
+            }}
+          >
+            <option value="">Default input</option>
+            {choices.map((mic) => (
+              <option key={mic.deviceId} value={mic.deviceId}>
+                {mic.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+          {recovery.canRetry && (
+            <button onClick={() => onRetry(deviceId || null)} style={primaryButtonStyle}>
+              Try again
+            </button>
+          )}
+          <button onClick={onDismiss} style={secondaryButtonStyle}>
+            Back
+          </button>
+        </div>
+
+        {error.code !== 'unsupported' && error.code !== 'audio-context' && (
+          <div style={{ marginTop: 24, color: colors.textMuted, fontSize: 12 }}>
+            You can also drop an audio file anywhere to play it through the blob.
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,36 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { blobLook } from '../lib/blobLook';
+import type { BlobLook } from '../lib/blobLook';
+
+/**
+ * Scene lighting — soft and diffuse, with accent colours taken from the
+ * active palette (look.lights, default blobLook) every frame.
+ */
+export function PaletteLights({ look = blobLook }: { look?: BlobLook }) {
+  const ambient = useRef<THREE.AmbientLight>(null);
+  const key = useRef<THREE.DirectionalLight>(null);
+  const fill = useRef<THREE.DirectionalLight>(null);
+  const rim = useRef<THREE.DirectionalLight>(null);
+  const top = useRef<THREE.PointLight>(null);
+
+  useFrame(() => {
+    const { lights } = look;
+    ambient.current?.color.copy(lights.ambient);
+    key.current?.color.copy(lights.key);
+    fill.current?.color.copy(lights.fill);
+    rim.current?.color.copy(lights.rim);
+    top.current?.color.copy(lights.top);
+  });
+
+  return (
+    <>
+      <ambientLight ref={ambient} intensity={0.5} />
+      <directionalLight ref={key} position={[5, 5, 5]} intensity={0.9} />
+      <directionalLight ref={fill} position={[-3, -2, -4]} intensity={0.35} />
+      <directionalLight ref={rim} position={[2, -3, 3]} intensity={0.2} />
+      <pointLight ref={top} position={[0, 4, 0]} intensity={0.3} />
+    </>
+  );
+}
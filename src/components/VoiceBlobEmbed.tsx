@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { Environment } from '@react-three/drei';
+import * as THREE from 'three';
+import { VoiceReactiveBlob } from './VoiceReactiveBlob';
+import { PaletteLights } from './PaletteLights';
+import { useVoiceAnalyser } from '../hooks/useVoiceAnalyser';
+import { usePalettes } from '../hooks/usePalettes';
+import { createStore } from '../lib/store';
+import { createDefaultDebugSettings } from '../lib/debugStore';
+import { createDefaultLook } from '../lib/blobLook';
+import { createMediaElementSource } from '../lib/audioSources';
+import type { AssistantState } from '../lib/assistantState';
+import type { MicError } from '../lib/micErrors';
+
+export interface VoiceBlobEmbedProps {
+  /** Built-in palette name; changes blend over the usual transition */
+  palette?: string | null;
+  /** Analyser gain; null or invalid restores the default */
+  sensitivity?: number | null;
+  /**
+   * What to listen to: 'microphone', 'none', or a selector for an <audio> /
+   * <video> element in the host document (played through, and analysed)
+   */
+  source?: string | null;
+  /** Fixed assistant state; omitted, it follows the source (idle / listening / error) */
+  state?: AssistantState | null;
+  onSpeakingStart?: () => void;
+  onSpeakingEnd?: () => void;
+  onError?: (error: MicError) => void;
+}
+
+/**
+ * Self-contained blob for embedding — its own analyser, settings and look,
+ * on a transparent canvas, with no app chrome. Backs the <voice-blob>
+ * custom element; several can share a page without sharing state.
+ */
+export function VoiceBlobEmbed({
+  palette,
+  sensitivity,
+  source,
+  state,
+  onSpeakingStart,
+  onSpeakingEnd,
+  onError,
+}: VoiceBlobEmbedProps) {
+  const [settings] = useState(() => createStore(createDefaultDebugSettings()));
+  const [look] = useState(() => createStore(createDefaultLook()));
+  const { voiceData, isListening, startListening, startSource, stopListening } = useVoiceAnalyser({
+    settings,
+    onSpeechStart: onSpeakingStart,
+    onSpeechEnd: onSpeakingEnd,
+  });
+  const { applyPalette } = usePalettes(look);
+  const [error, setError] = useState<MicError | null>(null);
+
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+
+  // The first palette is applied at once rather than blended in from the default
+  const hasPalette = useRef(false);
+  useEffect(() => {
+    if (!palette) return;
+    applyPalette(palette, hasPalette.current ? undefined : 0);
+    hasPalette.current = true;
+  }, [palette, applyPalette]);
+
+  useEffect(() => {
+    const valid = sensitivity != null && Number.isFinite(sensitivity) && sensitivity > 0;
+    settings.set({ sensitivity: valid ? sensitivity : createDefaultDebugSettings().sensitivity });
+  }, [sensitivity, settings]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fail = (err: MicError | null) => {
+      if (cancelled) return;
+      setError(err);
+      if (err) onErrorRef.current?.(err);
+    };
+
+    // The analyser runs on the shared, never-closed context, so a host element
+    // released here keeps playing and can be selected again later
+    if (!source || source === 'none') {
+      stopListening();
+      setError(null);
+    } else if (source === 'microphone') {
+      startListening().then(fail);
+    } else {
+      const element = document.querySelector(source);
+      if (element instanceof HTMLMediaElement) {
+        startSource(createMediaElementSource(element)).then(fail);
+      } else {
+        fail({ code: 'no-device', message: `No <audio> or <video> element matches "${source}"` });
+      }
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [source, startListening, startSource, stopListening]);
+
+  return (
+    <Canvas
+      camera={{ position: [0, 0, 3.5], fov: 45 }}
+      gl={{
+        antialias: true,
+        alpha: true,
+        toneMapping: THREE.ACESFilmicToneMapping,
+        toneMappingExposure: 1.0,
+      }}
+      style={{ width: '100%', height: '100%' }}
+    >
+      <PaletteLights look={look.state} />
+      <Environment preset="studio" />
+      <VoiceReactiveBlob
+        voiceData={voiceData}
+        assistantState={state ?? (error ? 'error' : isListening ? 'listening' : 'idle')}
+        settings={settings.state}
+        look={look.state}
+        // Levels and the scene background belong to the host app, not an embed
+        primary={false}
+      />
+    </Canvas>
+  );
+}
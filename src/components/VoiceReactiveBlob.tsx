@@ -1,71 +1,120 @@
-import { useRef, useMemo, useEffect } from 'react';
+import { useRef, useMemo, useEffect, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { BlobMaterial, BLOB_DEFAULTS } from '../materials/BlobMaterial';
+import { BlobMaterial } from '../materials/BlobMaterial';
 import { debugStore } from '../lib/debugStore';
+import type { DebugSettings } from '../lib/debugStore';
+import { publishLevels } from '../lib/levelsStore';
+import { blobLook, MOTION_KEYS, STATIC_UNIFORM_KEYS } from '../lib/blobLook';
+import type { BlobLook } from '../lib/blobLook';
+import { createModulationMatrix, pitchAmount, timbreFeature } from '../lib/modulation';
+import { assistantStore, createStateBlender, type AssistantState } from '../lib/assistantState';
 import type { VoiceData } from '../hooks/useVoiceAnalyser';
 
-/** Idle blob parameters */
-const IDLE = {
-  distort: BLOB_DEFAULTS.distort,
-  speed: BLOB_DEFAULTS.speed,
-  surfaceDistort: BLOB_DEFAULTS.surfaceDistort,
-  surfaceSpeed: BLOB_DEFAULTS.surfaceSpeed,
-};
-
-/** Maximum blob parameters when voice is at peak amplitude
- *  Very tight range — calming breath, not wobble */
-const ACTIVE = {
-  distort: 0.70,       // pronounced shape shift with voice
-  speed: 0.58,         // slight speed-up with voice
-  surfaceDistort: 1.7,  // deeper ridges with voice
-  surfaceSpeed: 0.48,   // slightly faster surface motion
-};
-
-/** Scale range: idle → peak voice */
-const SCALE_IDLE = 0.64;
-const SCALE_ACTIVE = 0.96;  // 50% expansion at peak
+/** Pitch mapping — one octave either side of the reference spans the full range */
+const PITCH_HUE_RANGE = 0.08;    // turns of gradient hue rotation
+const PITCH_WAVES_RANGE = 1.5;   // ridges added/removed from numberOfWaves
+
+/** Onset pulse — quick swell then exponential decay, in object-space units */
+const PULSE_DEPTH = 0.06;
+const PULSE_ATTACK_S = 0.03;
+const PULSE_DECAY_S = 0.18;
+
+/** Smoothing time constants, in seconds — frame-rate independent */
+const PITCH_SMOOTHING_S = 0.33;  // 0.05 / frame at 60 fps
+const FINISH_SMOOTHING_S = 0.33; // 0.05 / frame
+const MOUSE_FOLLOW_S = 0.16;     // 0.1 / frame
+const MOUSE_SETTLE_S = 0.83;     // 0.98 decay / frame — ~3 s to fully fade
+
+/** Base spin in rad/s, before modulation */
+const ROTATION_X = 0.03;
+const ROTATION_Y = 0.08;
+
+/** Material property range swept by a routed timbre feature (min at 0, max at 1) */
+const TIMBRE_PROPERTY_RANGE = {
+  roughness: [0.2, 0.75],
+  iridescence: [0.1, 1.0],
+  sheen: [0.3, 1.0],
+} as const;
 
 interface VoiceReactiveBlobProps {
   voiceData: React.RefObject<VoiceData>;
+  /** Fixed assistant state; omitted, the blob follows assistantStore */
+  assistantState?: AssistantState;
+  /** Live settings and look objects; default to the global debugStore and blobLook */
+  settings?: Readonly<DebugSettings>;
+  look?: BlobLook;
+  /**
+   * The primary blob paints the scene background and publishes levels for the
+   * UI (default); a second blob in the same scene leaves both alone
+   */
+  primary?: boolean;
+  /** Fade in on mount (default); off for offline renders, which start fully visible */
+  fadeIn?: boolean;
+  /** Follow the pointer (default); off where there's no pointer, e.g. offline renders */
+  interactive?: boolean;
 }
 
 /**
- * Owns the blob mesh/material, reads voice data + debugStore per-frame,
- * and publishes audio levels to a hidden DOM element for the DebugPanel.
+ * Owns the blob mesh/material, reads voice data + settings + look + assistant
+ * state per-frame, and publishes audio levels to levelsStore for the UI.
  */
-export function VoiceReactiveBlob({ voiceData }: VoiceReactiveBlobProps) {
+export function VoiceReactiveBlob({
+  voiceData,
+  assistantState,
+  settings = debugStore,
+  look = blobLook,
+  primary = true,
+  fadeIn: fadeInEnabled = true,
+  interactive = true,
+}: VoiceReactiveBlobProps) {
   const meshRef = useRef<THREE.Mesh>(null);
   const material = useMemo(() => new BlobMaterial(), []);
   const geometry = useMemo(() => new THREE.SphereGeometry(1, 192, 192), []);
 
-  // Hidden DOM element for debug panel to poll audio levels
   useEffect(() => {
-    const el = document.createElement('div');
-    el.id = '__voice_data';
-    el.style.display = 'none';
-    document.body.appendChild(el);
     return () => {
-      el.remove();
       material.dispose();
       geometry.dispose();
     };
   }, [material, geometry]);
 
   // Fade-in on load
-  const fadeIn = useRef(0);
+  const fadeIn = useRef(fadeInEnabled ? 0 : 1);
   useEffect(() => {
+    if (fadeIn.current >= 1) return;
     material.transparent = true;
     material.opacity = 0;
   }, [material]);
 
-  // Throttle DOM writes for audio levels
+  // Throttle level publishing
   const levelWriteCounter = useRef(0);
-  // Smoothed scale for breathing effect
-  const currentScale = useRef(SCALE_IDLE);
+  // Voice → uniform routes (settings.modRoutes); holds per-route envelopes
+  const modulation = useMemo(() => createModulationMatrix(), []);
+  // Smoothed pitch contributions, added on top of modulation
+  const pitchHue = useRef(0);
+  const pitchWaves = useRef(0);
+  // Onset pulse envelope + smoothed displacement + last onset seen
+  const pulseEnvelope = useRef(0);
+  const pulse = useRef(0);
+  const lastOnsetCount = useRef(0);
+  // Assistant state signature, eased between states; breathing phase in radians
+  const [stateBlender] = useState(() =>
+    createStateBlender(assistantState ?? assistantStore.state.state)
+  );
+  const breathePhase = useRef(0);
+  // Material finish at rest — timbre routing blends away from it while voiced
+  const restFinish = useMemo(
+    () => ({
+      roughness: material.roughness,
+      iridescence: material.iridescence,
+      sheen: material.sheen,
+    }),
+    [material]
+  );
 
   // Mouse interaction state
-  const { raycaster, pointer, camera } = useThree();
+  const { raycaster, pointer, camera, scene } = useThree();
   const smoothedHit = useRef(new THREE.Vector3(0, 0, 0));
   const smoothedStrength = useRef(0);
   const localHit = useRef(new THREE.Vector3());
@@ -77,6 +126,8 @@ export function VoiceReactiveBlob({ voiceData }: VoiceReactiveBlobProps) {
     if (!u) return;
 
     const dt = Math.min(delta, 0.1);
+    /** Per-frame share of the way to a target for a time constant */
+    const follow = (tau: number) => 1 - Math.exp(-dt / tau);
 
     // Smooth fade-in over ~1.5s
     if (fadeIn.current < 1) {
@@ -87,48 +138,76 @@ export function VoiceReactiveBlob({ voiceData }: VoiceReactiveBlobProps) {
       }
     }
 
-    // Apply animation speed from debug store
-    const speedMult = debugStore.animationSpeed;
+    // Apply animation speed from settings
+    const speedMult = settings.animationSpeed;
     material.tick(dt * speedMult);
 
     // Read voice data
     const v = voiceData.current;
     const amp = v.amplitude;
-    const mid = v.midEnergy;
-    const high = v.highEnergy;
-
-    // Map amplitude to blob parameters — very tight range
-    const targetDistort = IDLE.distort + (ACTIVE.distort - IDLE.distort) * amp;
-    const targetSpeed = (IDLE.speed + (ACTIVE.speed - IDLE.speed) * amp) * speedMult;
-
-    const surfaceAmp = Math.max(mid, high);
-    const targetSurfaceDistort =
-      IDLE.surfaceDistort +
-      (ACTIVE.surfaceDistort - IDLE.surfaceDistort) * surfaceAmp;
-    const targetSurfaceSpeed =
-      (IDLE.surfaceSpeed + (ACTIVE.surfaceSpeed - IDLE.surfaceSpeed) * amp) * speedMult;
-
-    // Very gentle interpolation — smooth, calming motion
-    const attackRate = 0.02;
-    const releaseRate = 0.008;
-    const lr = (cur: number, tgt: number) =>
-      tgt > cur ? attackRate : releaseRate;
-
-    u.distort.value += (targetDistort - u.distort.value) * lr(u.distort.value, targetDistort);
-    u.speed.value += (targetSpeed - u.speed.value) * lr(u.speed.value, targetSpeed);
-    u.surfaceDistort.value += (targetSurfaceDistort - u.surfaceDistort.value) * lr(u.surfaceDistort.value, targetSurfaceDistort);
-    u.surfaceSpeed.value += (targetSurfaceSpeed - u.surfaceSpeed.value) * lr(u.surfaceSpeed.value, targetSurfaceSpeed);
-
-    // Breathing scale — responsive expand/contract driven by voice
-    const targetScale = SCALE_IDLE + (SCALE_ACTIVE - SCALE_IDLE) * amp;
-    const scaleRate = targetScale > currentScale.current ? 0.06 : 0.03;
-    currentScale.current += (targetScale - currentScale.current) * scaleRate;
-    const s = currentScale.current;
+
+    // Modulation — each route's smoothed offset, summed per target
+    const mod = modulation.update(settings.modRoutes, v, dt);
+
+    // Assistant state — its signature adds motion; reactivity scales the voice's share
+    const sig = stateBlender.update(
+      assistantState ?? assistantStore.state.state,
+      assistantStore.state.transitionMs,
+      dt
+    );
+    const r = sig.reactivity;
+
+    // Look — preset-driven base uniforms and colours (crossfaded elsewhere)
+    for (const key of STATIC_UNIFORM_KEYS) u[key].value = look.uniforms[key] + mod[key] * r;
+    for (const key of MOTION_KEYS) u[key].value = look.idle[key] + sig[key] + mod[key] * r;
+    u.speed.value *= speedMult;
+    u.surfaceSpeed.value *= speedMult;
+    material.setPalette(look.stops);
+    material.sheenColor.copy(look.sheenColor);
+    if (primary && scene.background instanceof THREE.Color) scene.background.copy(look.background);
+
+    // Pitch — rising/falling intonation, weighted by voicing confidence
+    const pitch = pitchAmount(v);
+    const targetHue = settings.pitchTarget === 'hue' ? pitch * PITCH_HUE_RANGE : 0;
+    const targetWaves = settings.pitchTarget === 'waves' ? pitch * PITCH_WAVES_RANGE : 0;
+    pitchHue.current += (targetHue - pitchHue.current) * follow(PITCH_SMOOTHING_S);
+    pitchWaves.current += (targetWaves - pitchWaves.current) * follow(PITCH_SMOOTHING_S);
+    u.hueShift.value = (pitchHue.current + mod.hueShift) * r + sig.hueShift;
+    u.tintAmount.value = sig.tintAmount + mod.tintAmount * r;
+    material.setTint(sig.tint);
+    u.numberOfWaves.value += pitchWaves.current;
+
+    // Onset pulse — each new onset kicks the envelope, which then decays
+    if (v.onsetCount !== lastOnsetCount.current) {
+      lastOnsetCount.current = v.onsetCount;
+      pulseEnvelope.current = Math.max(pulseEnvelope.current, v.onsetStrength);
+    }
+    pulseEnvelope.current *= Math.exp(-dt / PULSE_DECAY_S);
+    const targetPulse = pulseEnvelope.current * PULSE_DEPTH * settings.onsetPulse;
+    pulse.current += (targetPulse - pulse.current) * Math.min(1, dt / PULSE_ATTACK_S);
+    u.pulse.value = (pulse.current + mod.pulse) * r;
+
+    // Timbre — routed features sweep physical properties, faded in by loudness
+    const presence = Math.min(1, amp * 3);
+    for (const prop of ['roughness', 'iridescence', 'sheen'] as const) {
+      const feature = timbreFeature(v, settings[`${prop}Source`]);
+      const [min, max] = TIMBRE_PROPERTY_RANGE[prop];
+      const target =
+        feature === null
+          ? restFinish[prop]
+          : restFinish[prop] + (min + (max - min) * feature - restFinish[prop]) * presence;
+      material[prop] += (target - material[prop]) * follow(FINISH_SMOOTHING_S);
+    }
+
+    // Breathing scale and spin — rest values plus modulation, shaped by the state
+    breathePhase.current = (breathePhase.current + dt * sig.breatheRate * Math.PI * 2) % (Math.PI * 2);
+    const breathe = 1 + sig.breatheDepth * Math.sin(breathePhase.current);
+    const s = Math.max(0.01, (look.scaleIdle + mod.scale * r) * sig.scale * breathe);
 
     if (meshRef.current) {
       meshRef.current.scale.set(s, s, s);
-      meshRef.current.rotation.y += dt * 0.08 * speedMult;
-      meshRef.current.rotation.x += dt * 0.03 * speedMult;
+      meshRef.current.rotation.y += dt * (ROTATION_Y + mod.rotationY * r) * sig.spin * speedMult;
+      meshRef.current.rotation.x += dt * (ROTATION_X + mod.rotationX * r) * sig.spin * speedMult;
     }
 
     // --- Mouse interaction ---
@@ -136,7 +215,9 @@ export function VoiceReactiveBlob({ voiceData }: VoiceReactiveBlobProps) {
     raycastFrame.current++;
 
     // Raycast every 3rd frame, track hover state
-    if (meshRef.current && raycastFrame.current % 3 === 0) {
+    if (!interactive) {
+      mouseHovering.current = false;
+    } else if (meshRef.current && raycastFrame.current % 3 === 0) {
       raycaster.setFromCamera(pointer, camera);
       const hits = raycaster.intersectObject(meshRef.current);
       if (hits.length > 0) {
@@ -149,32 +230,23 @@ export function VoiceReactiveBlob({ voiceData }: VoiceReactiveBlobProps) {
     }
 
     // Smooth position + strength every frame for fluid motion
-    smoothedHit.current.lerp(localHit.current, 0.1);
+    smoothedHit.current.lerp(localHit.current, follow(MOUSE_FOLLOW_S));
 
     if (mouseHovering.current) {
       // Fade in
-      smoothedStrength.current += (0.4 - smoothedStrength.current) * 0.1;
+      smoothedStrength.current += (0.4 - smoothedStrength.current) * follow(MOUSE_FOLLOW_S);
     } else {
-      // Very slow blobby settle — 0.98 per frame is ~3 seconds to fully fade
-      smoothedStrength.current *= 0.98;
+      // Very slow blobby settle
+      smoothedStrength.current *= Math.exp(-dt / MOUSE_SETTLE_S);
       if (smoothedStrength.current < 0.003) smoothedStrength.current = 0;
     }
 
     mu.mouseHit.value.copy(smoothedHit.current);
     mu.mouseStrength.value = smoothedStrength.current;
 
-    // Publish levels to DOM for DebugPanel (throttled to ~10fps)
+    // Publish levels for the UI (throttled to ~10fps)
     levelWriteCounter.current++;
-    if (levelWriteCounter.current % 6 === 0) {
-      const el = document.getElementById('__voice_data');
-      if (el) {
-        el.dataset.levels = JSON.stringify({
-          low: v.lowEnergy,
-          mid: v.midEnergy,
-          high: v.highEnergy,
-        });
-      }
-    }
+    if (primary && levelWriteCounter.current % 6 === 0) publishLevels(v);
   });
 
   return <mesh ref={meshRef} geometry={geometry} material={material} />;
@@ -0,0 +1,125 @@
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { VoiceBlobEmbed } from '../components/VoiceBlobEmbed';
+import { isAssistantState } from '../lib/assistantState';
+import type { AssistantState } from '../lib/assistantState';
+import type { MicError } from '../lib/micErrors';
+
+export const VOICE_BLOB_TAG = 'voice-blob';
+
+/** Events fired by <voice-blob>; they bubble and cross shadow roots */
+export interface VoiceBlobEventMap {
+  speakingstart: CustomEvent<void>;
+  speakingend: CustomEvent<void>;
+  /** The source failed to start — detail.code says why */
+  error: CustomEvent<Pick<MicError, 'code' | 'message'>>;
+}
+
+const ATTRIBUTES = ['palette', 'sensitivity', 'source', 'state'] as const;
+
+/**
+ * <voice-blob> — the voice-reactive orb as a custom element.
+ *
+ *   <voice-blob source="microphone" palette="Lagoon" sensitivity="3" state="listening">
+ *
+ * Attributes (mirrored by same-named properties):
+ *   palette      built-in palette name
+ *   sensitivity  analyser gain (default 3)
+ *   source       'microphone', 'none' (default), or a selector for an <audio>/<video>
+ *   state        idle | listening | thinking | speaking | error; omitted, it follows the source
+ *
+ * Sizes to its box (300×300 unless styled). Browsers only start audio after a
+ * user gesture, so set `source` from a click handler where possible.
+ */
+export class VoiceBlobElement extends HTMLElement {
+  static observedAttributes = ATTRIBUTES;
+
+  private root: Root | null = null;
+  private container: HTMLDivElement | null = null;
+
+  connectedCallback() {
+    if (!this.container) {
+      const shadow = this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = ':host { display: block; width: 300px; height: 300px; }';
+      this.container = document.createElement('div');
+      this.container.style.cssText = 'width: 100%; height: 100%;';
+      shadow.append(style, this.container);
+    }
+    this.root ??= createRoot(this.container);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  get palette() {
+    return this.getAttribute('palette');
+  }
+  set palette(value: string | null) {
+    this.setOrRemove('palette', value);
+  }
+
+  get sensitivity() {
+    const value = parseFloat(this.getAttribute('sensitivity') ?? '');
+    return Number.isFinite(value) ? value : null;
+  }
+  set sensitivity(value: number | null) {
+    this.setOrRemove('sensitivity', value == null ? null : String(value));
+  }
+
+  get source() {
+    return this.getAttribute('source');
+  }
+  set source(value: string | null) {
+    this.setOrRemove('source', value);
+  }
+
+  get state(): AssistantState | null {
+    const value = this.getAttribute('state');
+    return isAssistantState(value) ? value : null;
+  }
+  set state(value: AssistantState | null) {
+    this.setOrRemove('state', value);
+  }
+
+  private setOrRemove(name: string, value: string | null) {
+    if (value == null) this.removeAttribute(name);
+    else this.setAttribute(name, value);
+  }
+
+  private emit<K extends keyof VoiceBlobEventMap>(type: K, detail?: VoiceBlobEventMap[K]['detail']) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private render() {
+    this.root?.render(
+      <VoiceBlobEmbed
+        palette={this.palette}
+        sensitivity={this.sensitivity}
+        source={this.source}
+        state={this.state}
+        onSpeakingStart={() => this.emit('speakingstart')}
+        onSpeakingEnd={() => this.emit('speakingend')}
+        onError={({ code, message }) => this.emit('error', { code, message })}
+      />
+    );
+  }
+}
+
+/** Registers <voice-blob> (or the given tag); safe to call more than once */
+export function defineVoiceBlobElement(tagName = VOICE_BLOB_TAG) {
+  if (!customElements.get(tagName)) customElements.define(tagName, VoiceBlobElement);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'voice-blob': VoiceBlobElement;
+  }
+}
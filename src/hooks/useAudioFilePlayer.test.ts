@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { isSupportedAudioFile } from './useAudioFilePlayer';
+
+const file = (name: string, type: string) => new File([], name, { type });
+
+describe('isSupportedAudioFile', () => {
+  it('accepts a listed MIME type or a listed extension', () => {
+    expect(isSupportedAudioFile(file('take', 'audio/mpeg'))).toBe(true);
+    expect(isSupportedAudioFile(file('take.ogg', 'video/ogg'))).toBe(true);
+    expect(isSupportedAudioFile(file('take.wav', 'audio/vnd.wave'))).toBe(true);
+    expect(isSupportedAudioFile(file('take.mp3', ''))).toBe(true);
+  });
+
+  it('rejects files matching neither', () => {
+    expect(isSupportedAudioFile(file('notes.txt', 'text/plain'))).toBe(false);
+    expect(isSupportedAudioFile(file('take', ''))).toBe(false);
+  });
+});
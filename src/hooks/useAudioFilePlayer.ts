@@ -0,0 +1,127 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+
+/** MIME types accepted by the drop target */
+const AUDIO_MIME_PATTERN = /^audio\/(wav|x-wav|wave|mpeg|mp3|ogg)$/;
+/** Extensions accepted by the drop target, whatever MIME type the browser reports */
+const AUDIO_FILE_PATTERN = /\.(wav|mp3|ogg|oga)$/i;
+
+/** Browsers disagree on MIME types (video/ogg, audio/vnd.wave…), so either match will do */
+export function isSupportedAudioFile(file: File) {
+  return AUDIO_MIME_PATTERN.test(file.type) || AUDIO_FILE_PATTERN.test(file.name);
+}
+
+export interface PlaybackState {
+  fileName: string;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  loop: boolean;
+}
+
+const EMPTY_PLAYBACK: PlaybackState = {
+  fileName: '',
+  isPlaying: false,
+  currentTime: 0,
+  duration: 0,
+  loop: true,
+};
+
+/**
+ * Hook that owns an <audio> element for a dropped/picked file and exposes
+ * transport controls. The element is handed to useVoiceAnalyser through a
+ * media-element AudioSource; a fresh element is created for every file since
+ * an element can only be bound to a single AudioContext.
+ */
+export function useAudioFilePlayer() {
+  const [playback, setPlayback] = useState<PlaybackState>(EMPTY_PLAYBACK);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+  const loopRef = useRef(EMPTY_PLAYBACK.loop);
+  // Removes the current element's listeners — its late pause/ended events must not clobber the next file
+  const listenersRef = useRef<AbortController | null>(null);
+
+  const unload = useCallback(() => {
+    listenersRef.current?.abort();
+    listenersRef.current = null;
+    const audio = audioRef.current;
+    if (audio) {
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    }
+    if (urlRef.current) {
+      URL.revokeObjectURL(urlRef.current);
+    }
+    audioRef.current = null;
+    urlRef.current = null;
+    setPlayback({ ...EMPTY_PLAYBACK, loop: loopRef.current });
+  }, []);
+
+  const load = useCallback(
+    (file: File) => {
+      unload();
+
+      const url = URL.createObjectURL(file);
+      const audio = new Audio();
+      audio.src = url;
+      audio.loop = loopRef.current;
+      audio.preload = 'auto';
+
+      const sync = () =>
+        setPlayback({
+          fileName: file.name,
+          isPlaying: !audio.paused,
+          currentTime: audio.currentTime,
+          duration: Number.isFinite(audio.duration) ? audio.duration : 0,
+          loop: audio.loop,
+        });
+      const listeners = new AbortController();
+      for (const event of ['loadedmetadata', 'timeupdate', 'play', 'pause', 'ended', 'seeked']) {
+        audio.addEventListener(event, sync, { signal: listeners.signal });
+      }
+      listenersRef.current = listeners;
+
+      audioRef.current = audio;
+      urlRef.current = url;
+      sync();
+      return audio;
+    },
+    [unload]
+  );
+
+  const play = useCallback(async () => {
+    try {
+      await audioRef.current?.play();
+    } catch (err) {
+      console.error('Failed to start playback:', err);
+    }
+  }, []);
+
+  const pause = useCallback(() => {
+    audioRef.current?.pause();
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(time, audio.duration || 0));
+  }, []);
+
+  const setLoop = useCallback((loop: boolean) => {
+    loopRef.current = loop;
+    if (audioRef.current) audioRef.current.loop = loop;
+    setPlayback((p) => ({ ...p, loop }));
+  }, []);
+
+  useEffect(() => unload, [unload]);
+
+  return {
+    playback,
+    load,
+    unload,
+    play,
+    pause,
+    seek,
+    setLoop,
+  };
+}
@@ -0,0 +1,81 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useVoiceAnalyser } from './useVoiceAnalyser';
+import { useAudioFilePlayer } from './useAudioFilePlayer';
+import { usePalettes } from './usePalettes';
+import { createStore } from '../lib/store';
+import { createDefaultDebugSettings } from '../lib/debugStore';
+import { createDefaultLook } from '../lib/blobLook';
+import { createMediaElementSource } from '../lib/audioSources';
+import { AGENT_DEFAULT_PALETTE } from '../lib/conversation';
+import type { ConversationLayout } from '../lib/conversation';
+
+/**
+ * Hook for two-party mode: the layout, plus the agent side — a second
+ * analyser (own settings, so the mic's calibrated gates don't apply to it)
+ * fed from an agent audio file or any media element, and its own look with
+ * a distinct palette. The user side stays on the app's main analyser and look.
+ */
+export function useConversation() {
+  const [layout, setLayout] = useState<ConversationLayout>('off');
+  const [agentSettings] = useState(() => createStore(createDefaultDebugSettings()));
+  const [agentLook] = useState(() => createStore(createDefaultLook()));
+  const analyser = useVoiceAnalyser({ settings: agentSettings });
+  const { load, unload, play } = useAudioFilePlayer();
+  const { applyPalette } = usePalettes(agentLook);
+  const [agentPalette, setAgentPalette] = useState(AGENT_DEFAULT_PALETTE);
+
+  // Starts on its palette rather than blending in from the default
+  useEffect(() => {
+    applyPalette(AGENT_DEFAULT_PALETTE, 0);
+  }, [applyPalette]);
+
+  const { startSource, stopListening } = analyser;
+
+  /** Analyses (and plays) any media element as the agent's voice */
+  const connectAgentElement = useCallback(
+    (element: HTMLMediaElement, label?: string) =>
+      startSource(createMediaElementSource(element, { label })),
+    [startSource]
+  );
+
+  /** Plays a file as the agent's voice; resolves to false if it can't */
+  const loadAgentAudio = useCallback(
+    async (file: File) => {
+      const audio = load(file);
+      const error = await connectAgentElement(audio, file.name);
+      if (error) {
+        unload();
+        return false;
+      }
+      await play();
+      return true;
+    },
+    [load, unload, play, connectAgentElement]
+  );
+
+  const stopAgent = useCallback(() => {
+    unload();
+    stopListening();
+  }, [unload, stopListening]);
+
+  const changeAgentPalette = useCallback(
+    (name: string) => {
+      setAgentPalette(name);
+      applyPalette(name);
+    },
+    [applyPalette]
+  );
+
+  return {
+    layout,
+    setLayout,
+    agentVoiceData: analyser.voiceData,
+    agentLook,
+    agentLabel: analyser.isListening ? analyser.sourceLabel : '',
+    agentPalette,
+    setAgentPalette: changeAgentPalette,
+    connectAgentElement,
+    loadAgentAudio,
+    stopAgent,
+  };
+}
@@ -0,0 +1,108 @@
+import { useEffect, useRef } from 'react';
+import { settingsStore } from '../lib/debugStore';
+import { levelsStore } from '../lib/levelsStore';
+import { isAssistantState, releaseAssistantState, setAssistantState } from '../lib/assistantState';
+import {
+  configuredHostOrigins,
+  createHostBridge,
+  hostError,
+  paramsObject,
+} from '../lib/hostProtocol';
+import type { HostBridge, HostState } from '../lib/hostProtocol';
+import type { MicError } from '../lib/micErrors';
+
+export interface HostControls {
+  state: HostState;
+  micError: MicError | null;
+  presetNames: string[];
+  startListening: (deviceId: string | null) => Promise<MicError | null>;
+  stopListening: () => void;
+  applyPreset: (name: string, durationMs?: number) => void;
+}
+
+/**
+ * Exposes the app to a host page when it runs in an iframe — see
+ * hostProtocol. Does nothing at top level or when no origins are configured.
+ * Mic capture inside an iframe needs `allow="microphone; autoplay"` on it.
+ */
+export function useHostBridge(controls: HostControls) {
+  const controlsRef = useRef(controls);
+  useEffect(() => {
+    controlsRef.current = controls;
+  });
+  const bridgeRef = useRef<HostBridge | null>(null);
+
+  useEffect(() => {
+    const allowedOrigins = configuredHostOrigins();
+    if (window.parent === window || allowedOrigins.length === 0) return;
+
+    const bridge = createHostBridge({
+      allowedOrigins,
+      handlers: {
+        getState: () => controlsRef.current.state,
+        startListening: async (params) => {
+          const { deviceId = null } = paramsObject(params);
+          if (deviceId !== null && typeof deviceId !== 'string') {
+            throw hostError('invalid-params', 'deviceId must be a string');
+          }
+          const error = await controlsRef.current.startListening(deviceId);
+          if (error) throw hostError('failed', error.message, error.code);
+        },
+        stopListening: () => controlsRef.current.stopListening(),
+        setMuted: (params) => {
+          const { muted } = paramsObject(params);
+          if (typeof muted !== 'boolean') throw hostError('invalid-params', 'muted must be a boolean');
+          settingsStore.set({ isMuted: muted });
+        },
+        listPresets: () => controlsRef.current.presetNames,
+        applyPreset: (params) => {
+          const { name, durationMs } = paramsObject(params);
+          if (typeof name !== 'string' || !controlsRef.current.presetNames.includes(name)) {
+            throw hostError('invalid-params', `Unknown preset "${String(name)}"`);
+          }
+          if (durationMs !== undefined && !(typeof durationMs === 'number' && durationMs >= 0)) {
+            throw hostError('invalid-params', 'durationMs must be a non-negative number');
+          }
+          controlsRef.current.applyPreset(name, durationMs);
+        },
+        setAssistantState: (params) => {
+          const { state } = paramsObject(params);
+          // null hands the state back to the app, which derives it from the input
+          if (state === null) {
+            releaseAssistantState();
+            return;
+          }
+          if (!isAssistantState(state)) throw hostError('invalid-params', `Unknown state "${String(state)}"`);
+          setAssistantState(state);
+        },
+      },
+    });
+    bridgeRef.current = bridge;
+
+    // Levels while something is playing through the blob (~10 Hz, as published)
+    const unsubscribeLevels = levelsStore.subscribe(() => {
+      const { isListening, source } = controlsRef.current.state;
+      if (isListening || source === 'replay' || source === 'feed') bridge.emit('levels', levelsStore.state);
+    });
+
+    return () => {
+      unsubscribeLevels();
+      bridge.dispose();
+      bridgeRef.current = null;
+    };
+  }, []);
+
+  const { state, micError } = controls;
+  const stateJson = JSON.stringify(state);
+  useEffect(() => {
+    bridgeRef.current?.emit('state', JSON.parse(stateJson));
+  }, [stateJson]);
+
+  useEffect(() => {
+    bridgeRef.current?.emit('speaking', { isSpeaking: state.isSpeaking });
+  }, [state.isSpeaking]);
+
+  useEffect(() => {
+    if (micError) bridgeRef.current?.emit('error', { code: micError.code, message: micError.message });
+  }, [micError]);
+}
@@ -0,0 +1,57 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { settingsStore } from '../lib/debugStore';
+import { createEmptyVoiceData } from '../lib/voiceAnalyser';
+import type { VoiceData } from '../lib/voiceAnalyser';
+import { createLevelFeed } from '../lib/levelFeed';
+import type { FeedStatus, LevelFeed } from '../lib/levelFeed';
+
+/**
+ * Hook for an external WebSocket level feed (see levelFeed). Point the blob
+ * at `feedData` while `url` is set; it fades to rest when the feed goes quiet
+ * and reconnects on its own after drops.
+ */
+export function useLevelFeed() {
+  const [url, setUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<FeedStatus | null>(null);
+  const feedData = useRef<VoiceData>(createEmptyVoiceData());
+  const feedRef = useRef<LevelFeed | null>(null);
+  const rafIdRef = useRef(0);
+
+  const disconnect = useCallback(() => {
+    cancelAnimationFrame(rafIdRef.current);
+    rafIdRef.current = 0;
+    feedRef.current?.close();
+    feedRef.current = null;
+    setUrl(null);
+    setStatus(null);
+  }, []);
+
+  /** Returns false when the URL isn't a valid ws:// or wss:// URL */
+  const connect = useCallback(
+    (next: string) => {
+      disconnect();
+      let feed: LevelFeed;
+      try {
+        feed = createLevelFeed({ url: next, settings: settingsStore, onStatus: setStatus });
+      } catch {
+        return false;
+      }
+      feedRef.current = feed;
+      feedData.current = feed.data;
+      setUrl(next);
+      setStatus(feed.status);
+
+      const tick = (now: number) => {
+        feed.tick(now);
+        rafIdRef.current = requestAnimationFrame(tick);
+      };
+      rafIdRef.current = requestAnimationFrame(tick);
+      return true;
+    },
+    [disconnect]
+  );
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return { url, status, feedData, connect, disconnect };
+}
@@ -0,0 +1,139 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { settingsStore } from '../lib/debugStore';
+import type { DebugSettings } from '../lib/debugStore';
+import { blobLook, cloneLook } from '../lib/blobLook';
+import { analyseOffline, decodeAudioFile } from '../lib/offlineAnalysis';
+import { createZipWriter } from '../lib/zip';
+import { downloadBlob } from '../lib/download';
+import { maxRenderSize, renderOffline } from '../render/offlineRender';
+
+export type OfflineRenderPhase = 'idle' | 'analysing' | 'rendering' | 'packing';
+
+export interface OfflineRenderStatus {
+  phase: OfflineRenderPhase;
+  /** 0..1 within the phase */
+  progress: number;
+  /** Frames in the current render (0 until analysed) */
+  frameCount: number;
+  error: string | null;
+}
+
+export interface OfflineRenderSettings {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+/** Output sizes offered in the panel */
+export const OFFLINE_RESOLUTIONS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+  { label: 'Square 1080', width: 1080, height: 1080 },
+  { label: 'Vertical 1080', width: 1080, height: 1920 },
+];
+
+export const OFFLINE_FRAME_RATES = [24, 30, 60];
+
+const MIN_RENDER_SIZE = 16;
+
+/** A custom width or height, made even (as video encoders need) and no larger than the GPU renders */
+export function clampRenderSize(value: number) {
+  const max = maxRenderSize();
+  const even = Math.round(value / 2) * 2;
+  return Math.max(MIN_RENDER_SIZE, Math.min(max - (max % 2), even));
+}
+
+const IDLE_STATUS: OfflineRenderStatus = { phase: 'idle', progress: 0, frameCount: 0, error: null };
+
+function snapshotSettings(settings: Readonly<DebugSettings>): DebugSettings {
+  return { ...settings, bands: settings.bands.map((b) => ({ ...b })), isMuted: false };
+}
+
+/**
+ * Hook that renders an audio file to a zip of PNG frames (plus the audio, for
+ * muxing) at any size and frame rate — slower than real time, but the same
+ * file, settings and look always give the same frames. Settings and look are
+ * frozen when the render starts.
+ */
+export function useOfflineRender() {
+  const [options, setOptions] = useState<OfflineRenderSettings>({ width: 1920, height: 1080, fps: 60 });
+  const [status, setStatus] = useState<OfflineRenderStatus>(IDLE_STATUS);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(
+    async (file: File) => {
+      abortRef.current?.abort();
+      const abort = new AbortController();
+      abortRef.current = abort;
+      const { signal } = abort;
+      const { width, height, fps } = options;
+      // Progress updates are throttled to whole percents
+      let shown = -1;
+      const progress = (phase: OfflineRenderPhase, frameCount: number) => (p: number) => {
+        const pct = Math.floor(p * 100);
+        if (pct === shown) return;
+        shown = pct;
+        setStatus({ phase, progress: p, frameCount, error: null });
+      };
+
+      try {
+        setStatus({ ...IDLE_STATUS, phase: 'analysing' });
+        const audio = await file.arrayBuffer();
+        const buffer = await decodeAudioFile(audio.slice(0));
+        const settings = snapshotSettings(settingsStore.state);
+        const analysis = await analyseOffline(buffer, {
+          fps,
+          settings,
+          onProgress: progress('analysing', 0),
+          signal,
+        });
+
+        const frameCount = analysis.frames.length;
+        const digits = Math.max(5, String(frameCount).length);
+        const zip = createZipWriter();
+        shown = -1;
+        await renderOffline({
+          analysis,
+          settings,
+          look: cloneLook(blobLook),
+          width,
+          height,
+          onFrame: (i, png) => zip.add(`frames/${String(i + 1).padStart(digits, '0')}.png`, png),
+          onProgress: progress('rendering', frameCount),
+          signal,
+        });
+
+        setStatus({ phase: 'packing', progress: 1, frameCount, error: null });
+        await zip.add(`audio/${file.name}`, new Blob([audio], { type: file.type }));
+        const base = file.name.replace(/\.[^.]+$/, '');
+        downloadBlob(zip.finish(), `${base}-${width}x${height}-${fps}fps.zip`);
+        setStatus(IDLE_STATUS);
+      } catch (err) {
+        if (signal.aborted) {
+          setStatus(IDLE_STATUS);
+          return;
+        }
+        console.error('Offline render failed:', err);
+        const message = err instanceof Error ? err.message : String(err);
+        setStatus({ ...IDLE_STATUS, error: message || 'Render failed.' });
+      } finally {
+        if (abortRef.current === abort) abortRef.current = null;
+      }
+    },
+    [options]
+  );
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const updateOptions = useCallback((patch: Partial<OfflineRenderSettings>) => {
+    setOptions((o) => ({ ...o, ...patch }));
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { status, options, setOptions: updateOptions, start, cancel };
+}
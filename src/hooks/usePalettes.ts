@@ -0,0 +1,56 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { lookStore } from '../lib/blobLook';
+import type { BlobLook } from '../lib/blobLook';
+import type { Store } from '../lib/store';
+import { BUILT_IN_PALETTES, createPaletteTransition, findPalette } from '../lib/palette';
+import type { PaletteColors } from '../lib/palette';
+
+/**
+ * Hook for the blob's colour palette: switching between built-in palettes
+ * (animated) and live edits from the palette editor. Both write the look
+ * (default: the global lookStore); observe it for the current colours.
+ */
+export function usePalettes(look: Store<BlobLook> = lookStore) {
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const rafIdRef = useRef(0);
+
+  const runTransition = useCallback((transition: ReturnType<typeof createPaletteTransition>) => {
+    cancelAnimationFrame(rafIdRef.current);
+    setIsTransitioning(true);
+    const tick = (now: number) => {
+      if (transition.step(now)) {
+        rafIdRef.current = 0;
+        setIsTransitioning(false);
+        return;
+      }
+      rafIdRef.current = requestAnimationFrame(tick);
+    };
+    rafIdRef.current = requestAnimationFrame(tick);
+  }, []);
+
+  const applyPalette = useCallback(
+    (name: string, durationMs?: number) => {
+      const palette = findPalette(name);
+      if (!palette) return;
+      runTransition(createPaletteTransition(palette, look, performance.now(), durationMs));
+    },
+    [runTransition, look]
+  );
+
+  /** Applies edited colours immediately (cancels any running transition) */
+  const editPalette = useCallback((colors: PaletteColors) => {
+    cancelAnimationFrame(rafIdRef.current);
+    rafIdRef.current = 0;
+    setIsTransitioning(false);
+    createPaletteTransition(colors, look, 0, 0).step(0);
+  }, [look]);
+
+  useEffect(() => () => cancelAnimationFrame(rafIdRef.current), []);
+
+  return {
+    palettes: BUILT_IN_PALETTES.map((p) => p.name),
+    isTransitioning,
+    applyPalette,
+    editPalette,
+  };
+}
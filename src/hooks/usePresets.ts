@@ -0,0 +1,132 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { debugStore, settingsStore } from '../lib/debugStore';
+import { blobLook, lookStore } from '../lib/blobLook';
+import {
+  BUILT_IN_PRESETS,
+  capturePreset,
+  createPresetCrossfade,
+  isBuiltInPreset,
+  loadStoredPresets,
+  parsePreset,
+  saveStoredPresets,
+} from '../lib/presets';
+import type { Preset } from '../lib/presets';
+import { downloadJson } from '../lib/download';
+
+/**
+ * Hook that manages named presets: built-ins plus user presets saved in
+ * localStorage. Applying one crossfades debugStore and blobLook towards it.
+ * On mount the last applied preset's look is restored (settings are already
+ * restored by the settings persistence).
+ */
+export function usePresets() {
+  const [userPresets, setUserPresets] = useState<Preset[]>(() => loadStoredPresets().presets);
+  const [activeName, setActiveName] = useState<string | null>(() => loadStoredPresets().active);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const rafIdRef = useRef(0);
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+
+  const runCrossfade = useCallback((crossfade: ReturnType<typeof createPresetCrossfade>) => {
+    cancelAnimationFrame(rafIdRef.current);
+    setIsTransitioning(true);
+    const tick = (now: number) => {
+      if (crossfade.step(now)) {
+        rafIdRef.current = 0;
+        setIsTransitioning(false);
+        return;
+      }
+      rafIdRef.current = requestAnimationFrame(tick);
+    };
+    rafIdRef.current = requestAnimationFrame(tick);
+  }, []);
+
+  const applyPreset = useCallback(
+    (name: string, durationMs?: number) => {
+      const preset = [...BUILT_IN_PRESETS, ...userPresets].find((p) => p.name === name);
+      if (!preset) return;
+      runCrossfade(
+        createPresetCrossfade(preset, settingsStore, lookStore, performance.now(), durationMs)
+      );
+      setActiveName(preset.name);
+      saveStoredPresets({ presets: userPresets, active: preset.name });
+    },
+    [runCrossfade, userPresets]
+  );
+
+  /** Saves the current settings and look under a name; built-in names are reserved */
+  const savePreset = useCallback(
+    (name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed || isBuiltInPreset(trimmed)) return false;
+      const preset = capturePreset(trimmed, debugStore, blobLook);
+      const next = [...userPresets.filter((p) => p.name !== trimmed), preset];
+      setUserPresets(next);
+      setActiveName(trimmed);
+      saveStoredPresets({ presets: next, active: trimmed });
+      return true;
+    },
+    [userPresets]
+  );
+
+  const deletePreset = useCallback(
+    (name: string) => {
+      const next = userPresets.filter((p) => p.name !== name);
+      const active = activeName === name ? null : activeName;
+      setUserPresets(next);
+      setActiveName(active);
+      saveStoredPresets({ presets: next, active });
+    },
+    [userPresets, activeName]
+  );
+
+  const exportPreset = useCallback(
+    (name: string) => {
+      const preset = presets.find((p) => p.name === name);
+      if (!preset) return;
+      const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
+      downloadJson(preset, `${slug}.voice-blob-preset.json`);
+    },
+    [presets]
+  );
+
+  /**
+   * Adds a preset from parsed JSON (throws on invalid input) and applies it.
+   * Name clashes get a numeric suffix rather than overwriting.
+   */
+  const importPreset = useCallback(
+    (json: unknown) => {
+      const preset = parsePreset(json);
+      const taken = (n: string) => isBuiltInPreset(n) || userPresets.some((p) => p.name === n);
+      let name = preset.name;
+      for (let i = 2; taken(name); i++) name = `${preset.name} (${i})`;
+
+      const imported = { ...preset, name };
+      const next = [...userPresets, imported];
+      setUserPresets(next);
+      runCrossfade(createPresetCrossfade(imported, settingsStore, lookStore, performance.now()));
+      setActiveName(name);
+      saveStoredPresets({ presets: next, active: name });
+    },
+    [userPresets, runCrossfade]
+  );
+
+  // Restore the last preset's look instantly on startup
+  useEffect(() => {
+    const stored = loadStoredPresets();
+    const preset = [...BUILT_IN_PRESETS, ...stored.presets].find((p) => p.name === stored.active);
+    if (preset) createPresetCrossfade(preset, null, lookStore, 0, 0).step(0);
+    return () => cancelAnimationFrame(rafIdRef.current);
+  }, []);
+
+  return {
+    presets,
+    activeName,
+    isTransitioning,
+    applyPreset,
+    savePreset,
+    deletePreset,
+    exportPreset,
+    importPreset,
+  };
+}
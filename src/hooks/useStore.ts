@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import type { Store } from '../lib/store';
+
+/**
+ * Subscribes a component to part of a store. The selector must return a
+ * primitive or a reference the store replaces on change (not a fresh object),
+ * otherwise every notification re-renders.
+ */
+export function useStore<T extends object, S>(store: Store<T>, selector: (state: Readonly<T>) => S): S {
+  return useSyncExternalStore(store.subscribe, () => selector(store.state));
+}
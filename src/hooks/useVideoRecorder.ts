@@ -0,0 +1,141 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { addAfterEffect } from '@react-three/fiber';
+import { createCanvasRecorder, DEFAULT_RECORDING_OPTIONS } from '../lib/videoRecorder';
+import { getRecordStream, getSharedAudioContext } from '../lib/audioContext';
+import type { CanvasRecorder, RecordingOptions } from '../lib/videoRecorder';
+import { downloadBlob, fileTimestamp } from '../lib/download';
+
+export type VideoRecordingMode = 'idle' | 'countdown' | 'recording';
+
+export interface VideoRecordingStatus {
+  mode: VideoRecordingMode;
+  /** Seconds left before recording starts */
+  countdown: number;
+  /** ms recorded so far */
+  elapsed: number;
+  /** Output size of the current take */
+  width: number;
+  height: number;
+  error: string | null;
+}
+
+const IDLE_STATUS: VideoRecordingStatus = {
+  mode: 'idle',
+  countdown: 0,
+  elapsed: 0,
+  width: 0,
+  height: 0,
+  error: null,
+};
+
+/**
+ * Hook that records the R3F canvas, plus every analysed source (the record
+ * mix, see audioContext.ts), to a WebM file — downloaded when the take is
+ * stopped. Frames are copied right after each render, so the canvas needs no
+ * preserveDrawingBuffer.
+ */
+export function useVideoRecorder(canvasRef: React.RefObject<HTMLCanvasElement | null>) {
+  const [options, setOptions] = useState<RecordingOptions>(DEFAULT_RECORDING_OPTIONS);
+  const [status, setStatus] = useState<VideoRecordingStatus>(IDLE_STATUS);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const cleanupRef = useRef<(() => void) | null>(null);
+
+  const clearTimers = () => {
+    cleanupRef.current?.();
+    cleanupRef.current = null;
+  };
+
+  /** Stops the take, if any, and downloads whatever was recorded */
+  const end = useCallback(async (error: string | null) => {
+    clearTimers();
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setStatus({ ...IDLE_STATUS, error });
+    if (!recorder) return;
+    const blob = await recorder.stop();
+    if (blob.size > 0) downloadBlob(blob, `voice-blob-${fileTimestamp()}.webm`);
+  }, []);
+
+  const begin = useCallback(() => {
+    const source = canvasRef.current;
+    if (!source) {
+      setStatus({ ...IDLE_STATUS, error: 'No canvas to record.' });
+      return;
+    }
+    let recorder: CanvasRecorder;
+    try {
+      recorder = createCanvasRecorder({
+        ...options,
+        source,
+        audio: getRecordStream(),
+        onError: (err) => {
+          if (recorderRef.current === recorder) end(`Recording failed: ${err.message}`);
+        },
+      });
+    } catch (err) {
+      setStatus({ ...IDLE_STATUS, error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    recorderRef.current = recorder;
+
+    const startedAt = performance.now();
+    const removeAfterEffect = addAfterEffect(() => recorder.drawFrame());
+    // Status only needs a coarse clock
+    const timer = setInterval(
+      () => setStatus((s) => ({ ...s, elapsed: performance.now() - startedAt })),
+      250
+    );
+    cleanupRef.current = () => {
+      removeAfterEffect();
+      clearInterval(timer);
+    };
+    setStatus({
+      ...IDLE_STATUS,
+      mode: 'recording',
+      width: recorder.width,
+      height: recorder.height,
+    });
+  }, [canvasRef, end, options]);
+
+  /** Counts down (if configured), then records until stop() */
+  const start = useCallback(() => {
+    clearTimers();
+    // The record mix is silent while the context is suspended; this is a user gesture, so wake it
+    getSharedAudioContext().resume();
+    if (options.countdown <= 0) {
+      begin();
+      return;
+    }
+    let remaining = options.countdown;
+    setStatus({ ...IDLE_STATUS, mode: 'countdown', countdown: remaining });
+    const timer = setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setStatus((s) => ({ ...s, countdown: remaining }));
+        return;
+      }
+      clearTimers();
+      begin();
+    }, 1000);
+    cleanupRef.current = () => clearInterval(timer);
+  }, [begin, options.countdown]);
+
+  /** Cancels a countdown, or stops the take and downloads it */
+  const stop = useCallback(() => end(null), [end]);
+
+  const updateOptions = useCallback((patch: Partial<RecordingOptions>) => {
+    setOptions((o) => ({ ...o, ...patch }));
+  }, []);
+
+  // Unmount mid-take: drop the recording
+  useEffect(
+    () => () => {
+      clearTimers();
+      recorderRef.current?.stop();
+      recorderRef.current = null;
+    },
+    []
+  );
+
+  return { status, options, setOptions: updateOptions, start, stop };
+}
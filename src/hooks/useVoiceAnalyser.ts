@@ -1,19 +1,51 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { debugStore } from '../lib/debugStore';
+import { settingsStore } from '../lib/debugStore';
+import type { DebugSettings } from '../lib/debugStore';
+import type { Store } from '../lib/store';
+import { createVoiceAnalyser } from '../lib/voiceAnalyser';
+import type { VoiceAnalyser, VoiceData } from '../lib/voiceAnalyser';
+import { createMicrophoneSource } from '../lib/audioSources';
+import { getRecordMix, getSharedAudioContext } from '../lib/audioContext';
+import { createSpectrumWorklet, isSpectrumWorkletSupported, smoothingPerHop } from '../lib/spectrumWorklet';
+import type { SpectrumWorklet } from '../lib/spectrumWorklet';
+import type { SpectrumWorkletConfig } from '../lib/spectrumFrame';
+import type { AudioSource, AudioSourceKind, MicrophoneSource } from '../lib/audioSources';
+import { checkMicSupport, toMicError } from '../lib/micErrors';
+import type { MicError, MicErrorStage } from '../lib/micErrors';
+
+export type { VoiceData } from '../lib/voiceAnalyser';
+
+/** Time-domain window for pitch tracking — long enough for ~70 Hz voices */
+const PITCH_WINDOW = 2048;
+
+/** AnalyserNode settings, mirrored by the worklet so both engines read alike */
+const ANALYSER_SMOOTHING = 0.85;
+const ANALYSER_MIN_DB = -90;
+const ANALYSER_MAX_DB = -10;
+
+function workletConfig(fftSize: number, sampleRate: number): SpectrumWorkletConfig {
+  return {
+    fftSize,
+    smoothingTimeConstant: smoothingPerHop(ANALYSER_SMOOTHING, sampleRate),
+    minDecibels: ANALYSER_MIN_DB,
+    maxDecibels: ANALYSER_MAX_DB,
+  };
+}
 
-export interface VoiceData {
-  amplitude: number;
-  lowEnergy: number;
-  midEnergy: number;
-  highEnergy: number;
+export interface VoiceAnalyserOptions {
+  /** Called from the analysis loop when the VAD enters the speaking state */
+  onSpeechStart?: () => void;
+  /** Called from the analysis loop when the VAD hangover runs out */
+  onSpeechEnd?: () => void;
+  /** Called from the analysis loop on each detected onset, strength 0..1 */
+  onOnset?: (strength: number) => void;
+  /** Analyse in an AudioWorklet when available (default), else AnalyserNode + rAF */
+  preferWorklet?: boolean;
+  /** Settings store the analyser reads and calibrates (default: the global settingsStore); fixed at mount */
+  settings?: Store<DebugSettings>;
 }
 
-const EMPTY_VOICE_DATA: VoiceData = {
-  amplitude: 0,
-  lowEnergy: 0,
-  midEnergy: 0,
-  highEnergy: 0,
-};
+export type AnalysisEngine = 'worklet' | 'analyser';
 
 export interface MicDevice {
   deviceId: string;
@@ -21,24 +53,90 @@ export interface MicDevice {
 }
 
 /**
- * Hook that provides real-time voice analysis from the microphone.
+ * Microphone session health:
+ *   connected — on the preferred device
+ *   fallback  — preferred device vanished; on the default input until it returns
+ *   lost      — no usable input; waiting for any device to appear
+ */
+export type MicStatus = 'connected' | 'fallback' | 'lost';
+
+/**
+ * Hook that provides real-time voice analysis from the microphone or any
+ * other AudioSource (media element, decoded file, oscillator).
  * Supports device enumeration, switching, mute, sensitivity, and noise gate
- * via the global debugStore.
+ * via the global settingsStore (or one passed in), plus voice activity detection with
+ * speech start/end callbacks. Microphone sessions survive hot-plugging:
+ * the device list follows `devicechange`, a vanished or ended input falls
+ * back to the default one, and the preferred device is reconnected when it
+ * returns. All DSP lives in the headless
+ * createVoiceAnalyser core; this hook owns the Web Audio graph and feeds it.
  */
-export function useVoiceAnalyser() {
+export function useVoiceAnalyser({
+  onSpeechStart,
+  onSpeechEnd,
+  onOnset,
+  preferWorklet = true,
+  settings: settingsOption,
+}: VoiceAnalyserOptions = {}) {
+  const [settings] = useState(() => settingsOption ?? settingsStore);
+
   const [isListening, setIsListening] = useState(false);
   const [currentMic, setCurrentMic] = useState('');
   const [availableMics, setAvailableMics] = useState<MicDevice[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
-
-  const voiceData = useRef<VoiceData>({ ...EMPTY_VOICE_DATA });
+  const [sourceKind, setSourceKind] = useState<AudioSourceKind | null>(null);
+  const [sourceLabel, setSourceLabel] = useState('');
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [analysisEngine, setAnalysisEngine] = useState<AnalysisEngine | null>(null);
+  const [micStatus, setMicStatus] = useState<MicStatus>('connected');
+  const [preferredMicLabel, setPreferredMicLabel] = useState('');
+  const [micError, setMicError] = useState<MicError | null>(null);
+
+  // Latest callbacks, read from the analysis loop without restarting it
+  const callbacksRef = useRef({ onSpeechStart, onSpeechEnd, onOnset });
+  useEffect(() => {
+    callbacksRef.current = { onSpeechStart, onSpeechEnd, onOnset };
+  }, [onSpeechStart, onSpeechEnd, onOnset]);
+
+  // Headless DSP core; the settings store's state doubles as its live settings object
+  const [core] = useState<VoiceAnalyser>(() =>
+    createVoiceAnalyser({
+      settings: settings.state,
+      onSpeechStart: () => {
+        setIsSpeaking(true);
+        callbacksRef.current.onSpeechStart?.();
+      },
+      onSpeechEnd: () => {
+        setIsSpeaking(false);
+        callbacksRef.current.onSpeechEnd?.();
+      },
+      onOnset: (strength) => callbacksRef.current.onOnset?.(strength),
+      onCalibrationEnd: () => setIsCalibrating(false),
+      onSettingsChange: settings.notify,
+    })
+  );
+  const voiceData = useRef<VoiceData>(core.data);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const sourceRef = useRef<AudioSource | null>(null);
   const rafIdRef = useRef<number>(0);
   const frequencyDataRef = useRef<Uint8Array<ArrayBuffer> | null>(null);
+  const pitchAnalyserRef = useRef<AnalyserNode | null>(null);
+  const timeDataRef = useRef<Float32Array<ArrayBuffer> | null>(null);
+  const workletRef = useRef<SpectrumWorklet | null>(null);
+  const workletFftSizeRef = useRef(0);
+
+  // Microphone session: the device the user wants, and whether a mic session
+  // is active at all (it stays active while 'lost', with no source connected)
+  const micSessionRef = useRef(false);
+  const preferredDeviceIdRef = useRef<string | null>(null);
+  const reconcilingRef = useRef(false);
+  const reconcilePendingRef = useRef(false);
+  const reconcileRef = useRef<() => void>(() => {});
+  // Removes the open mic's track 'ended' listener when that mic is released
+  const micListenersRef = useRef<AbortController | null>(null);
 
   const loadMicrophones = useCallback(async () => {
     try {
@@ -56,20 +154,26 @@ export function useVoiceAnalyser() {
     }
   }, []);
 
+  /**
+   * Measure the room and set per-band noise gates from it.
+   * Keep quiet while it runs — the blob is held still until it finishes.
+   */
+  const recalibrate = useCallback(() => {
+    core.recalibrate();
+    setIsCalibrating(true);
+  }, [core]);
+
+  /** AnalyserNode fallback: pull a frame per display frame and process it */
   const analyse = useCallback(() => {
     const analyser = analyserRef.current;
+    const pitchAnalyser = pitchAnalyserRef.current;
     const ctx = audioContextRef.current;
-    if (!analyser || !ctx) return;
-
-    // Mute: fade out smoothly
-    if (debugStore.isMuted) {
-      const v = voiceData.current;
-      v.amplitude *= 0.9;
-      v.lowEnergy *= 0.9;
-      v.midEnergy *= 0.9;
-      v.highEnergy *= 0.9;
-      rafIdRef.current = requestAnimationFrame(analyse);
-      return;
+    if (!analyser || !pitchAnalyser || !ctx) return;
+
+    // FFT size is editable at runtime; the data buffer follows it
+    if (analyser.fftSize !== settings.state.fftSize) {
+      analyser.fftSize = settings.state.fftSize;
+      frequencyDataRef.current = null;
     }
 
     let freqData = frequencyDataRef.current;
@@ -77,144 +181,284 @@ export function useVoiceAnalyser() {
       freqData = new Uint8Array(analyser.frequencyBinCount);
       frequencyDataRef.current = freqData;
     }
+    let timeData = timeDataRef.current;
+    if (!timeData) {
+      timeData = new Float32Array(pitchAnalyser.fftSize);
+      timeDataRef.current = timeData;
+    }
 
     analyser.getByteFrequencyData(freqData);
-    const bufferLength = analyser.frequencyBinCount;
-
-    // Frequency band sums
-    let bassSum = 0;
-    let midSum = 0;
-    let highSum = 0;
-
-    for (let i = 0; i < 6; i++) bassSum += freqData[i];
-    for (let i = 6; i < 50; i++) midSum += freqData[i];
-    for (let i = 50; i < bufferLength; i++) highSum += freqData[i];
-
-    let rawBass = bassSum / (6 * 255);
-    let rawMid = midSum / (44 * 255);
-    let rawHigh = highSum / ((bufferLength - 50) * 255);
-
-    // Noise gate
-    const gate = debugStore.noiseGate;
-    rawBass = rawBass > gate ? (rawBass - gate) / (1 - gate) : 0;
-    rawMid = rawMid > gate ? (rawMid - gate) / (1 - gate) : 0;
-    rawHigh = rawHigh > gate ? (rawHigh - gate) / (1 - gate) : 0;
-
-    // Apply sensitivity — very slow, calming smoothing
-    const sensitivity = debugStore.sensitivity;
-    const attack = 0.025;
-    const release = 0.992;
-
-    const v = voiceData.current;
-
-    // Bass — reduced multiplier so it doesn't spike
-    const targetBass = Math.min(1, rawBass * sensitivity * 1.0);
-    v.lowEnergy =
-      targetBass > v.lowEnergy
-        ? v.lowEnergy + (targetBass - v.lowEnergy) * attack
-        : v.lowEnergy * release;
-
-    // Mid
-    const targetMid = Math.min(1, rawMid * sensitivity * 1.2);
-    v.midEnergy =
-      targetMid > v.midEnergy
-        ? v.midEnergy + (targetMid - v.midEnergy) * attack
-        : v.midEnergy * release;
-
-    // High
-    const targetHigh = Math.min(1, rawHigh * sensitivity * 0.8);
-    v.highEnergy =
-      targetHigh > v.highEnergy
-        ? v.highEnergy + (targetHigh - v.highEnergy) * attack
-        : v.highEnergy * release;
-
-    // Clamp and compute overall amplitude
-    v.lowEnergy = Math.max(0, Math.min(1, v.lowEnergy)) || 0;
-    v.midEnergy = Math.max(0, Math.min(1, v.midEnergy)) || 0;
-    v.highEnergy = Math.max(0, Math.min(1, v.highEnergy)) || 0;
-    v.amplitude = Math.max(v.lowEnergy, v.midEnergy, v.highEnergy);
+    // Pitch — the core runs YIN on a longer window from a dedicated analyser
+    pitchAnalyser.getFloatTimeDomainData(timeData);
+
+    core.process({
+      frequency: freqData,
+      timeDomain: timeData,
+      fftSize: analyser.fftSize,
+      sampleRate: ctx.sampleRate,
+      minDecibels: analyser.minDecibels,
+      maxDecibels: analyser.maxDecibels,
+      time: performance.now(),
+    });
 
     rafIdRef.current = requestAnimationFrame(analyse);
-  }, []);
+  }, [core, settings]);
 
-  const startListening = useCallback(
-    async (deviceId: string | null = null) => {
+  /** Keeps the worklet's FFT config in step with the fftSize setting */
+  const syncWorkletConfig = useCallback(() => {
+    const worklet = workletRef.current;
+    const ctx = audioContextRef.current;
+    const { fftSize } = settings.state;
+    if (!worklet || !ctx || workletFftSizeRef.current === fftSize) return;
+    workletFftSizeRef.current = fftSize;
+    worklet.configure(workletConfig(fftSize, ctx.sampleRate));
+  }, [settings]);
+
+  /**
+   * Start analysing an arbitrary AudioSource. Any previously active source is
+   * released first; the AudioContext and analysis nodes are reused.
+   * Resolves to null on success, or the classified failure.
+   */
+  const startSource = useCallback(
+    async (source: AudioSource): Promise<MicError | null> => {
+      let stage: MicErrorStage = 'context';
       try {
         // Reset
-        voiceData.current = { ...EMPTY_VOICE_DATA };
+        core.reset();
+        if (source.kind !== 'microphone') micSessionRef.current = false;
 
-        // Stop existing stream
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach((t) => t.stop());
+        // Release existing source
+        micListenersRef.current?.abort();
+        micListenersRef.current = null;
+        if (sourceRef.current) {
+          sourceRef.current.disconnect();
+          sourceRef.current = null;
         }
         if (rafIdRef.current) {
           cancelAnimationFrame(rafIdRef.current);
+          rafIdRef.current = 0;
         }
 
-        const audioConstraints: MediaTrackConstraints = {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: true,
-        };
-
-        if (deviceId) {
-          audioConstraints.deviceId = { exact: deviceId };
+        // Audio context — shared and long-lived, see audioContext.ts
+        audioContextRef.current = getSharedAudioContext();
+        const ctx = audioContextRef.current;
+        if (ctx.state === 'suspended') {
+          await ctx.resume();
         }
 
-        const stream = await navigator.mediaDevices.getUserMedia({
-          audio: audioConstraints,
-        });
-        streamRef.current = stream;
-
-        // Refresh device list (labels available after permission grant)
-        await loadMicrophones();
-
-        const tracks = stream.getAudioTracks();
-        const settings = tracks[0]?.getSettings();
-        setCurrentMic(tracks[0]?.label || 'Unknown Microphone');
-        setSelectedDeviceId(settings?.deviceId || null);
-
-        // Audio context
-        if (
-          !audioContextRef.current ||
-          audioContextRef.current.state === 'closed'
-        ) {
-          const AC = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
-          audioContextRef.current = new AC();
-        }
-        if (audioContextRef.current.state === 'suspended') {
-          await audioContextRef.current.resume();
+        stage = 'source';
+        const node = await source.connect(ctx);
+        sourceRef.current = source;
+        // Heard by video recordings; the source leaves the mix when it disconnects
+        node.connect(getRecordMix());
+
+        // Preferred engine: AudioWorklet at a fixed hop, off the render loop
+        if (preferWorklet && !workletRef.current && isSpectrumWorkletSupported(ctx)) {
+          try {
+            workletRef.current = await createSpectrumWorklet(
+              ctx,
+              workletConfig(settings.state.fftSize, ctx.sampleRate),
+              (frame) => {
+                syncWorkletConfig();
+                core.process(frame);
+              }
+            );
+            workletFftSizeRef.current = settings.state.fftSize;
+          } catch (err) {
+            console.warn('AudioWorklet analyser unavailable, using AnalyserNode:', err);
+          }
         }
 
-        // Disconnect old source
-        if (sourceRef.current) {
-          sourceRef.current.disconnect();
+        if (workletRef.current) {
+          node.connect(workletRef.current.node);
+        } else {
+          if (!analyserRef.current) {
+            analyserRef.current = ctx.createAnalyser();
+            analyserRef.current.fftSize = settings.state.fftSize;
+            analyserRef.current.smoothingTimeConstant = ANALYSER_SMOOTHING;
+            analyserRef.current.minDecibels = ANALYSER_MIN_DB;
+            analyserRef.current.maxDecibels = ANALYSER_MAX_DB;
+          }
+
+          if (!pitchAnalyserRef.current) {
+            pitchAnalyserRef.current = ctx.createAnalyser();
+            pitchAnalyserRef.current.fftSize = PITCH_WINDOW;
+          }
+
+          node.connect(analyserRef.current);
+          node.connect(pitchAnalyserRef.current);
+          rafIdRef.current = requestAnimationFrame(analyse);
         }
 
-        sourceRef.current =
-          audioContextRef.current.createMediaStreamSource(stream);
-
-        if (!analyserRef.current) {
-          analyserRef.current = audioContextRef.current.createAnalyser();
-          analyserRef.current.fftSize = 256;
-          analyserRef.current.smoothingTimeConstant = 0.85;
-          analyserRef.current.minDecibels = -90;
-          analyserRef.current.maxDecibels = -10;
+        if (source.monitor) {
+          node.connect(ctx.destination);
         }
 
-        sourceRef.current.connect(analyserRef.current);
-
+        setAnalysisEngine(workletRef.current ? 'worklet' : 'analyser');
+        setSourceKind(source.kind);
+        setSourceLabel(source.label);
         setIsListening(true);
-        rafIdRef.current = requestAnimationFrame(analyse);
-        return true;
+        return null;
       } catch (err) {
-        console.error('Failed to access microphone:', err);
-        return false;
+        source.disconnect();
+        // The previous source was already released, so nothing is connected now.
+        // A mic session stays 'listening' — its recovery (micError / 'lost') takes over
+        setAnalysisEngine(null);
+        setSourceKind(null);
+        setSourceLabel('');
+        if (!micSessionRef.current) setIsListening(false);
+        const error = toMicError(err, stage);
+        console.error(`Failed to start ${source.kind} source (${error.code}):`, err);
+        return error;
       }
     },
-    [analyse, loadMicrophones]
+    [analyse, core, syncWorkletConfig, preferWorklet, settings]
   );
 
+  /** Opens a mic without touching the preferred device */
+  const openMicrophone = useCallback(
+    async (deviceId: string | null): Promise<MicrophoneSource | MicError> => {
+      const unavailable = checkMicSupport();
+      if (unavailable) return unavailable;
+
+      const mic = createMicrophoneSource(deviceId);
+      const error = await startSource(mic);
+      if (error) return error;
+      micSessionRef.current = true;
+
+      // Unplugging usually ends the track; stop() on our side never fires this
+      const listeners = new AbortController();
+      micListenersRef.current = listeners;
+      mic.stream?.getAudioTracks()[0]?.addEventListener(
+        'ended',
+        () => {
+          if (sourceRef.current === mic) reconcileRef.current();
+        },
+        { signal: listeners.signal }
+      );
+
+      // Refresh device list (labels available after permission grant)
+      await loadMicrophones();
+
+      setCurrentMic(mic.label);
+      setSelectedDeviceId(mic.deviceId);
+
+      // Each mic/room has its own floor — measure it before reacting
+      recalibrate();
+      return mic;
+    },
+    [startSource, loadMicrophones, recalibrate]
+  );
+
+  /**
+   * Start (or switch) the microphone. Resolves to null on success; failures
+   * are also kept in `micError` for the recovery UI until cleared or retried.
+   */
+  const startListening = useCallback(
+    async (deviceId: string | null = null): Promise<MicError | null> => {
+      let mic = await openMicrophone(deviceId);
+      // A remembered device that's gone: run on the default input and keep
+      // the remembered one preferred, so hot-plug recovery switches back
+      if (!('kind' in mic) && mic.code === 'no-device' && deviceId) {
+        const fallback = await openMicrophone(null);
+        if ('kind' in fallback) {
+          preferredDeviceIdRef.current = deviceId;
+          setPreferredMicLabel('');
+          setMicStatus('fallback');
+          setMicError(null);
+          return null;
+        }
+        mic = fallback;
+      }
+      if (!('kind' in mic)) {
+        setMicError(mic);
+        // Enumeration may still list devices to offer as alternatives
+        await loadMicrophones();
+        return mic;
+      }
+
+      preferredDeviceIdRef.current = deviceId ?? mic.deviceId;
+      setPreferredMicLabel(mic.label);
+      setMicStatus('connected');
+      setMicError(null);
+      return null;
+    },
+    [openMicrophone, loadMicrophones]
+  );
+
+  const clearMicError = useCallback(() => setMicError(null), []);
+
+  /**
+   * Brings the mic session in line with the current device list: back to the
+   * preferred device if it's present, else onto the default input if the
+   * current one died, else idle until something is plugged in.
+   * Runs are serialised; events arriving mid-run trigger one more pass.
+   */
+  const reconcileDevices = useCallback(async () => {
+    if (reconcilingRef.current) {
+      reconcilePendingRef.current = true;
+      return;
+    }
+    reconcilingRef.current = true;
+    try {
+      do {
+        reconcilePendingRef.current = false;
+        const mics = await loadMicrophones();
+        if (!micSessionRef.current) continue;
+
+        const ids = mics.map((m) => m.deviceId);
+        const current =
+          sourceRef.current?.kind === 'microphone' ? (sourceRef.current as MicrophoneSource) : null;
+        const currentAlive =
+          !!current &&
+          current.stream?.getAudioTracks()[0]?.readyState === 'live' &&
+          (!current.deviceId || ids.includes(current.deviceId));
+        const preferred = preferredDeviceIdRef.current;
+
+        if (preferred && ids.includes(preferred) && (!currentAlive || current?.deviceId !== preferred)) {
+          if ('kind' in (await openMicrophone(preferred))) {
+            setMicStatus('connected');
+            continue;
+          }
+        }
+        // A failed switch above has already released the current source
+        if (currentAlive && sourceRef.current === current) continue;
+
+        const fallback = mics.length > 0 ? await openMicrophone(null) : null;
+        if (fallback && 'kind' in fallback) {
+          setMicStatus(fallback.deviceId === preferred ? 'connected' : 'fallback');
+        } else {
+          // Nothing to listen to — let the blob settle instead of freezing mid-motion
+          cancelAnimationFrame(rafIdRef.current);
+          rafIdRef.current = 0;
+          micListenersRef.current?.abort();
+          micListenersRef.current = null;
+          sourceRef.current?.disconnect();
+          sourceRef.current = null;
+          core.reset();
+          setCurrentMic('');
+          setSelectedDeviceId(null);
+          setMicStatus('lost');
+        }
+      } while (reconcilePendingRef.current);
+    } finally {
+      reconcilingRef.current = false;
+    }
+  }, [core, loadMicrophones, openMicrophone]);
+
+  useEffect(() => {
+    reconcileRef.current = reconcileDevices;
+  }, [reconcileDevices]);
+
+  // Hot-plug: refresh the list and recover the mic session on every change
+  useEffect(() => {
+    const devices = navigator.mediaDevices;
+    if (!devices?.addEventListener) return;
+    const onDeviceChange = () => reconcileRef.current();
+    devices.addEventListener('devicechange', onDeviceChange);
+    return () => devices.removeEventListener('devicechange', onDeviceChange);
+  }, []);
+
   const switchMicrophone = useCallback(
     async (deviceId: string) => {
       await startListening(deviceId);
@@ -224,22 +468,28 @@ export function useVoiceAnalyser() {
 
   const stopListening = useCallback(() => {
     cancelAnimationFrame(rafIdRef.current);
+    rafIdRef.current = 0;
+    micListenersRef.current?.abort();
+    micListenersRef.current = null;
     sourceRef.current?.disconnect();
-    streamRef.current?.getTracks().forEach((t) => t.stop());
-    if (
-      audioContextRef.current &&
-      audioContextRef.current.state !== 'closed'
-    ) {
-      audioContextRef.current.close();
-    }
+    workletRef.current?.dispose();
+    // The context is shared and stays open; only this analyser's nodes go
+    analyserRef.current?.disconnect();
+    pitchAnalyserRef.current?.disconnect();
     audioContextRef.current = null;
     analyserRef.current = null;
+    pitchAnalyserRef.current = null;
+    workletRef.current = null;
     sourceRef.current = null;
-    streamRef.current = null;
+    micSessionRef.current = false;
     frequencyDataRef.current = null;
-    voiceData.current = { ...EMPTY_VOICE_DATA };
+    timeDataRef.current = null;
+    core.reset();
+    setSourceKind(null);
+    setSourceLabel('');
+    setAnalysisEngine(null);
     setIsListening(false);
-  }, []);
+  }, [core]);
 
   useEffect(() => {
     return () => {
@@ -252,9 +502,20 @@ export function useVoiceAnalyser() {
   return {
     voiceData,
     isListening,
+    isSpeaking,
+    isCalibrating,
+    recalibrate,
+    analysisEngine,
     startListening,
+    startSource,
     stopListening,
+    sourceKind,
+    sourceLabel,
     currentMic,
+    micError,
+    clearMicError,
+    micStatus,
+    preferredMicLabel,
     availableMics,
     selectedDeviceId,
     switchMicrophone,
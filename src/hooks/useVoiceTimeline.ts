@@ -0,0 +1,142 @@
+import { useRef, useState, useCallback, useEffect } from 'react';
+import { debugStore, settingsStore } from '../lib/debugStore';
+import type { DebugSettings } from '../lib/debugStore';
+import { createEmptyVoiceData } from '../lib/voiceAnalyser';
+import type { VoiceData } from '../lib/voiceAnalyser';
+import { createTimelinePlayer, createTimelineRecorder } from '../lib/voiceTimeline';
+import type { VoiceTimeline } from '../lib/voiceTimeline';
+import { downloadJson, fileTimestamp } from '../lib/download';
+
+export type TimelineMode = 'idle' | 'recording' | 'replaying';
+
+export interface TimelineStatus {
+  mode: TimelineMode;
+  /** ms recorded so far, or ms into the replay */
+  position: number;
+  /** ms; 0 while recording */
+  duration: number;
+  loop: boolean;
+}
+
+/**
+ * Hook that records the live VoiceData stream (plus debugStore edits) to a
+ * timeline file, and replays timelines into its own VoiceData ref. Point the
+ * blob at `replayData` while `status.mode === 'replaying'`.
+ */
+export function useVoiceTimeline(liveData: React.RefObject<VoiceData>) {
+  const [status, setStatus] = useState<TimelineStatus>({
+    mode: 'idle',
+    position: 0,
+    duration: 0,
+    loop: true,
+  });
+
+  const replayData = useRef<VoiceData>(createEmptyVoiceData());
+  const rafIdRef = useRef(0);
+  const loopRef = useRef(true);
+  const recorderRef = useRef<ReturnType<typeof createTimelineRecorder> | null>(null);
+  // Settings in effect before replay took over debugStore
+  const savedSettingsRef = useRef<DebugSettings | null>(null);
+
+  const stopLoop = () => {
+    cancelAnimationFrame(rafIdRef.current);
+    rafIdRef.current = 0;
+  };
+
+  const startRecording = useCallback(() => {
+    stopLoop();
+    const startedAt = performance.now();
+    const recorder = createTimelineRecorder(debugStore, startedAt);
+    recorderRef.current = recorder;
+    let lastStatusAt = 0;
+
+    const tick = (now: number) => {
+      recorder.capture(liveData.current, now);
+      // Status only needs a coarse clock
+      if (now - lastStatusAt > 250) {
+        lastStatusAt = now;
+        setStatus((s) => ({ ...s, mode: 'recording', position: now - startedAt, duration: 0 }));
+      }
+      rafIdRef.current = requestAnimationFrame(tick);
+    };
+    setStatus((s) => ({ ...s, mode: 'recording', position: 0, duration: 0 }));
+    rafIdRef.current = requestAnimationFrame(tick);
+  }, [liveData]);
+
+  /** Stops recording and downloads the timeline as JSON */
+  const stopRecording = useCallback(() => {
+    stopLoop();
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setStatus((s) => ({ ...s, mode: 'idle', position: 0 }));
+    if (!recorder || recorder.frameCount === 0) return null;
+
+    const timeline = recorder.finish();
+    downloadJson(timeline, `voice-timeline-${fileTimestamp()}.json`);
+    return timeline;
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    stopLoop();
+    if (savedSettingsRef.current) {
+      settingsStore.set(savedSettingsRef.current);
+      savedSettingsRef.current = null;
+    }
+    Object.assign(replayData.current, createEmptyVoiceData());
+    setStatus((s) => ({ ...s, mode: 'idle', position: 0, duration: 0 }));
+  }, []);
+
+  const startReplay = useCallback(
+    (timeline: VoiceTimeline) => {
+      stopLoop();
+      recorderRef.current = null;
+      savedSettingsRef.current ??= { ...debugStore };
+
+      const player = createTimelinePlayer(timeline);
+      player.rewind(settingsStore);
+      let startedAt = performance.now();
+      let lastStatusAt = 0;
+
+      const tick = (now: number) => {
+        let t = now - startedAt;
+        if (t > player.duration) {
+          if (!loopRef.current) {
+            stopReplay();
+            return;
+          }
+          startedAt = now;
+          t = 0;
+          player.rewind(settingsStore);
+        }
+        player.applySettings(t, settingsStore);
+        player.sample(t, replayData.current);
+
+        if (now - lastStatusAt > 250) {
+          lastStatusAt = now;
+          setStatus((s) => ({ ...s, mode: 'replaying', position: t, duration: player.duration }));
+        }
+        rafIdRef.current = requestAnimationFrame(tick);
+      };
+      setStatus((s) => ({ ...s, mode: 'replaying', position: 0, duration: player.duration }));
+      rafIdRef.current = requestAnimationFrame(tick);
+    },
+    [stopReplay]
+  );
+
+  const setLoop = useCallback((loop: boolean) => {
+    loopRef.current = loop;
+    setStatus((s) => ({ ...s, loop }));
+  }, []);
+
+  useEffect(() => () => cancelAnimationFrame(rafIdRef.current), []);
+
+  return {
+    status,
+    replayData,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+    setLoop,
+  };
+}
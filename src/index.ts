@@ -0,0 +1,37 @@
+/**
+ * voice-blob library entry (`npm run build:lib` → dist-lib/voice-blob.js).
+ *
+ * Importing it registers <voice-blob>. The rest is the ES module API for
+ * hosts that want more than the element: the assistant state store, the
+ * headless analyser and audio sources, palettes, and the material itself.
+ */
+import { defineVoiceBlobElement } from './element/VoiceBlobElement';
+
+defineVoiceBlobElement();
+
+export { defineVoiceBlobElement, VoiceBlobElement, VOICE_BLOB_TAG } from './element/VoiceBlobElement';
+export type { VoiceBlobEventMap } from './element/VoiceBlobElement';
+export { VoiceBlobEmbed } from './components/VoiceBlobEmbed';
+export type { VoiceBlobEmbedProps } from './components/VoiceBlobEmbed';
+
+export {
+  ASSISTANT_STATES,
+  STATE_SIGNATURES,
+  assistantStore,
+  releaseAssistantState,
+  setAssistantState,
+} from './lib/assistantState';
+export type { AssistantState, AssistantStateOwner, StateSignature } from './lib/assistantState';
+export { BUILT_IN_PALETTES, findPalette } from './lib/palette';
+export type { Palette, PaletteColors, PaletteStop } from './lib/palette';
+export { createVoiceAnalyser, createEmptyVoiceData } from './lib/voiceAnalyser';
+export type { VoiceAnalyser, VoiceAnalyserConfig, VoiceData } from './lib/voiceAnalyser';
+export {
+  createBufferSource,
+  createMediaElementSource,
+  createMicrophoneSource,
+  createOscillatorSource,
+} from './lib/audioSources';
+export type { AudioSource } from './lib/audioSources';
+export type { MicError, MicErrorCode } from './lib/micErrors';
+export { BlobMaterial, BLOB_DEFAULTS } from './materials/BlobMaterial';
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assistantStore,
+  releaseAssistantState,
+  setAssistantState,
+  setAutoAssistantState,
+} from './assistantState';
+
+describe('assistant state ownership', () => {
+  it('keeps an explicit state until it is released', () => {
+    setAutoAssistantState('listening');
+    setAssistantState('thinking');
+    setAutoAssistantState('idle');
+
+    expect(assistantStore.state).toMatchObject({ state: 'thinking', owner: 'host' });
+
+    releaseAssistantState();
+    setAutoAssistantState('idle');
+
+    expect(assistantStore.state).toMatchObject({ state: 'idle', owner: 'auto' });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Assistant states — the blob as a voice assistant orb. Each state has a
+ * visual signature (motion, scale, spin, colour) and a reactivity that scales
+ * how much voice modulation comes through. Host code sets the state; the blob
+ * eases between signatures.
+ */
+import * as THREE from 'three';
+import { createStore } from './store';
+
+export const ASSISTANT_STATES = ['idle', 'listening', 'thinking', 'speaking', 'error'] as const;
+
+export type AssistantState = (typeof ASSISTANT_STATES)[number];
+
+/** Default ease between two states */
+export const ASSISTANT_TRANSITION_MS = 700;
+
+export interface StateSignature {
+  /** Multiplier on voice modulation and onset pulses (1 = as configured) */
+  reactivity: number;
+  /** Added to the idle motion uniforms */
+  distort: number;
+  speed: number;
+  surfaceDistort: number;
+  surfaceSpeed: number;
+  /** Multiplies the rest scale */
+  scale: number;
+  /** Multiplies the base spin */
+  spin: number;
+  /** Slow scale oscillation — fraction of scale, and rate in Hz */
+  breatheDepth: number;
+  breatheRate: number;
+  /** Gradient hue rotation in turns */
+  hueShift: number;
+  /** Gradient blended towards tint by tintAmount (0 = palette only) */
+  tint: THREE.Color;
+  tintAmount: number;
+}
+
+function signature(s: Partial<Omit<StateSignature, 'tint'>> & { tint?: string }): StateSignature {
+  return {
+    reactivity: 1,
+    distort: 0,
+    speed: 0,
+    surfaceDistort: 0,
+    surfaceSpeed: 0,
+    scale: 1,
+    spin: 1,
+    breatheDepth: 0,
+    breatheRate: 0.25,
+    hueShift: 0,
+    tintAmount: 0,
+    ...s,
+    tint: new THREE.Color(s.tint ?? '#ffffff'),
+  };
+}
+
+/** Listening is the neutral signature — the voice visualiser as configured */
+export const STATE_SIGNATURES: Record<AssistantState, StateSignature> = {
+  // Resting orb: barely reacts, breathes slowly
+  idle: signature({ reactivity: 0.35, breatheDepth: 0.015, breatheRate: 0.25 }),
+  listening: signature({}),
+  // Processing: turned inward — churning surface, faster spin, a quick pulse, cool tint
+  thinking: signature({
+    reactivity: 0.2,
+    distort: 0.08,
+    speed: 0.35,
+    surfaceDistort: 0.3,
+    surfaceSpeed: 0.4,
+    scale: 0.92,
+    spin: 3,
+    breatheDepth: 0.04,
+    breatheRate: 0.8,
+    hueShift: 0.06,
+    tint: '#7b61ff',
+    tintAmount: 0.15,
+  }),
+  // Talking back: larger and more expressive than the user's voice
+  speaking: signature({
+    reactivity: 1.3,
+    distort: 0.06,
+    speed: 0.1,
+    surfaceDistort: 0.2,
+    surfaceSpeed: 0.1,
+    scale: 1.08,
+    spin: 1.4,
+    hueShift: -0.03,
+  }),
+  // Something went wrong: shrinks, slows, flushes red
+  error: signature({
+    reactivity: 0.15,
+    distort: -0.1,
+    speed: -0.2,
+    surfaceDistort: -0.4,
+    surfaceSpeed: -0.2,
+    scale: 0.85,
+    spin: 0.3,
+    breatheDepth: 0.03,
+    breatheRate: 0.5,
+    tint: '#ff3b30',
+    tintAmount: 0.45,
+  }),
+};
+
+/**
+ * Who set the current state: 'auto' follows the input (listening, idle,
+ * error); 'host' is an explicit choice (host protocol, panel, library code)
+ * that the input no longer overrides.
+ */
+export type AssistantStateOwner = 'auto' | 'host';
+
+/** Current assistant state — set by host code, read per-frame by the blob */
+export const assistantStore = createStore({
+  state: 'listening' as AssistantState,
+  /** Ease time for the change into `state` */
+  transitionMs: ASSISTANT_TRANSITION_MS,
+  owner: 'auto' as AssistantStateOwner,
+});
+
+/** Sets the state explicitly; it holds until releaseAssistantState() */
+export function setAssistantState(
+  state: AssistantState,
+  transitionMs = ASSISTANT_TRANSITION_MS,
+  owner: AssistantStateOwner = 'host'
+) {
+  const current = assistantStore.state;
+  if (current.state === state && current.transitionMs === transitionMs && current.owner === owner) return;
+  assistantStore.set({ state, transitionMs, owner });
+}
+
+/** Sets the state derived from the input — ignored while an explicit state holds */
+export function setAutoAssistantState(state: AssistantState) {
+  if (assistantStore.state.owner === 'host') return;
+  setAssistantState(state, ASSISTANT_TRANSITION_MS, 'auto');
+}
+
+/** Hands the state back to the input, which sets it again on its next change */
+export function releaseAssistantState() {
+  if (assistantStore.state.owner === 'auto') return;
+  assistantStore.set({ owner: 'auto' });
+}
+
+export function isAssistantState(v: unknown): v is AssistantState {
+  return (ASSISTANT_STATES as readonly unknown[]).includes(v);
+}
+
+const NUMERIC_KEYS = [
+  'reactivity',
+  'distort',
+  'speed',
+  'surfaceDistort',
+  'surfaceSpeed',
+  'scale',
+  'spin',
+  'breatheDepth',
+  'breatheRate',
+  'hueShift',
+  'tintAmount',
+] as const;
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+/**
+ * Eases a live signature towards the target state's. A state change mid-ease
+ * starts from wherever the blend is, so rapid switches never jump. update()
+ * returns the same (reused) object every frame.
+ */
+export function createStateBlender(initial: AssistantState = 'listening') {
+  const current = signature({});
+  const from = signature({});
+  copySignature(current, STATE_SIGNATURES[initial]);
+  let target = initial;
+  let progress = 1;
+
+  function copySignature(out: StateSignature, src: StateSignature) {
+    for (const key of NUMERIC_KEYS) out[key] = src[key];
+    out.tint.copy(src.tint);
+  }
+
+  return {
+    /** dt in seconds */
+    update(state: AssistantState, transitionMs: number, dt: number): Readonly<StateSignature> {
+      if (state !== target) {
+        copySignature(from, current);
+        target = state;
+        progress = 0;
+      }
+      if (progress >= 1) return current;
+
+      progress = transitionMs > 0 ? Math.min(1, progress + (dt * 1000) / transitionMs) : 1;
+      const e = easeInOutCubic(progress);
+      const to = STATE_SIGNATURES[target];
+      for (const key of NUMERIC_KEYS) current[key] = from[key] + (to[key] - from[key]) * e;
+      current.tint.lerpColors(from.tint, to.tint, e);
+      return current;
+    },
+  };
+}
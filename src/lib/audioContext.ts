@@ -0,0 +1,50 @@
+/**
+ * The app's one AudioContext, shared by every analyser and never closed.
+ * A media element can only ever be bound to a single context — and goes
+ * silent for good if that context closes — so sources come and go on a
+ * context that outlives all of them. Analysers release their own nodes
+ * instead of closing it.
+ */
+let shared: AudioContext | null = null;
+
+export function getSharedAudioContext() {
+  if (!shared || shared.state === 'closed') {
+    const AC =
+      window.AudioContext ||
+      (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    shared = new AC();
+  }
+  return shared;
+}
+
+let recordMix: GainNode | null = null;
+let recordDestination: MediaStreamAudioDestinationNode | null = null;
+
+/**
+ * Every analysed source feeds this mix (the user and, in conversation mode,
+ * the agent). Sources join and leave it as they start and stop; the mix
+ * itself lives as long as the context.
+ */
+export function getRecordMix() {
+  const ctx = getSharedAudioContext();
+  if (recordMix?.context !== ctx) {
+    recordMix = ctx.createGain();
+    recordDestination = null;
+  }
+  return recordMix;
+}
+
+/**
+ * The record mix as a MediaStream, for recording. Its track stays live
+ * across source switches and stops — silent while nothing plays — so a
+ * take never loses its audio.
+ */
+export function getRecordStream() {
+  const mix = getRecordMix();
+  if (!recordDestination) {
+    const destination = getSharedAudioContext().createMediaStreamDestination();
+    mix.connect(destination);
+    recordDestination = destination;
+  }
+  return recordDestination.stream;
+}
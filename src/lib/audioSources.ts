@@ -0,0 +1,213 @@
+/**
+ * Pluggable audio inputs for the voice analyser.
+ *
+ * Each source knows how to produce an AudioNode inside a given AudioContext.
+ * The analyser hook owns the analysis graph (on the shared, never-closed
+ * context from audioContext.ts); a source only
+ * owns whatever it had to open to produce its node (a mic stream, a buffer
+ * player, an oscillator) and releases it in disconnect().
+ */
+
+export type AudioSourceKind = 'microphone' | 'media-element' | 'buffer' | 'oscillator';
+
+export interface AudioSource {
+  readonly kind: AudioSourceKind;
+  /** Route the source to the speakers as well as the analyser. */
+  readonly monitor: boolean;
+  /** Human-readable name, resolved once connect() has succeeded. */
+  readonly label: string;
+  connect(ctx: AudioContext): Promise<AudioNode>;
+  disconnect(): void;
+}
+
+// =============================================
+// MICROPHONE
+// =============================================
+
+export interface MicrophoneSource extends AudioSource {
+  readonly kind: 'microphone';
+  /** Live stream once connected, null before connect / after disconnect. */
+  readonly stream: MediaStream | null;
+  /** The device actually opened by the browser (may differ from the request). */
+  readonly deviceId: string | null;
+}
+
+export function createMicrophoneSource(deviceId: string | null = null): MicrophoneSource {
+  let stream: MediaStream | null = null;
+  let node: MediaStreamAudioSourceNode | null = null;
+  let label = '';
+  let openedDeviceId: string | null = null;
+
+  return {
+    kind: 'microphone',
+    monitor: false,
+    get label() {
+      return label;
+    },
+    get stream() {
+      return stream;
+    },
+    get deviceId() {
+      return openedDeviceId;
+    },
+    async connect(ctx) {
+      const audioConstraints: MediaTrackConstraints = {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: true,
+      };
+
+      if (deviceId) {
+        audioConstraints.deviceId = { exact: deviceId };
+      }
+
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: audioConstraints,
+      });
+
+      const track = stream.getAudioTracks()[0];
+      label = track?.label || 'Unknown Microphone';
+      openedDeviceId = track?.getSettings().deviceId || null;
+
+      node = ctx.createMediaStreamSource(stream);
+      return node;
+    },
+    disconnect() {
+      node?.disconnect();
+      stream?.getTracks().forEach((t) => t.stop());
+      node = null;
+      stream = null;
+    },
+  };
+}
+
+// =============================================
+// <audio> / <video> ELEMENT
+// =============================================
+
+/**
+ * A MediaElementAudioSourceNode can only ever be created once per element, so
+ * nodes are cached per element and reused on reconnect. Analysers all run on
+ * the shared context, which is never closed, so the cached node stays usable;
+ * an element bound to some other context that has since closed cannot be
+ * re-bound — create a fresh element in that case.
+ */
+const elementNodes = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+
+export function createMediaElementSource(
+  element: HTMLMediaElement,
+  { monitor = true, label }: { monitor?: boolean; label?: string } = {}
+): AudioSource {
+  let node: MediaElementAudioSourceNode | null = null;
+
+  return {
+    kind: 'media-element',
+    monitor,
+    get label() {
+      return label || element.currentSrc || 'Media element';
+    },
+    async connect(ctx) {
+      const cached = elementNodes.get(element);
+      node = cached && cached.context === ctx ? cached : ctx.createMediaElementSource(element);
+      elementNodes.set(element, node);
+      // Drop the speaker route from a previous release; the analyser adds it back if monitoring
+      node.disconnect();
+      return node;
+    },
+    /** Detaches from the analyser and hands the element back to the speakers */
+    disconnect() {
+      if (node) {
+        node.disconnect();
+        node.connect(node.context.destination);
+      }
+      node = null;
+    },
+  };
+}
+
+// =============================================
+// DECODED FILE / BUFFER
+// =============================================
+
+export function createBufferSource(
+  input: AudioBuffer | ArrayBuffer | Blob,
+  { loop = true, monitor = true, label }: { loop?: boolean; monitor?: boolean; label?: string } = {}
+): AudioSource {
+  let node: AudioBufferSourceNode | null = null;
+
+  return {
+    kind: 'buffer',
+    monitor,
+    get label() {
+      return label || (input instanceof File ? input.name : 'Audio buffer');
+    },
+    async connect(ctx) {
+      let buffer: AudioBuffer;
+      if (input instanceof AudioBuffer) {
+        buffer = input;
+      } else {
+        const bytes = input instanceof Blob ? await input.arrayBuffer() : input.slice(0);
+        buffer = await ctx.decodeAudioData(bytes);
+      }
+
+      node = ctx.createBufferSource();
+      node.buffer = buffer;
+      node.loop = loop;
+      node.start();
+      return node;
+    },
+    disconnect() {
+      if (node) {
+        try {
+          node.stop();
+        } catch { /* already stopped */ }
+        node.disconnect();
+      }
+      node = null;
+    },
+  };
+}
+
+// =============================================
+// OSCILLATOR (test tone)
+// =============================================
+
+export function createOscillatorSource({
+  frequency = 220,
+  type = 'sine',
+  gain = 0.5,
+  monitor = false,
+}: {
+  frequency?: number;
+  type?: OscillatorType;
+  gain?: number;
+  monitor?: boolean;
+} = {}): AudioSource {
+  let osc: OscillatorNode | null = null;
+  let out: GainNode | null = null;
+
+  return {
+    kind: 'oscillator',
+    monitor,
+    label: `${type} ${frequency} Hz`,
+    async connect(ctx) {
+      osc = ctx.createOscillator();
+      osc.type = type;
+      osc.frequency.value = frequency;
+      out = ctx.createGain();
+      out.gain.value = gain;
+      osc.connect(out);
+      osc.start();
+      return out;
+    },
+    disconnect() {
+      if (osc) {
+        osc.stop();
+        osc.disconnect();
+      }
+      out?.disconnect();
+      osc = null;
+      out = null;
+    },
+  };
+}
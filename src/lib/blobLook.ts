@@ -0,0 +1,70 @@
+import { BLOB_DEFAULTS } from '../materials/BlobMaterial';
+import { createStore } from './store';
+import { clonePalette, DEFAULT_PALETTE, resolvePalette } from './palette';
+
+/** Uniforms the blob animates every frame — idle values plus modulation */
+export interface MotionParams {
+  distort: number;
+  speed: number;
+  surfaceDistort: number;
+  surfaceSpeed: number;
+}
+
+export const MOTION_KEYS: (keyof MotionParams)[] = ['distort', 'speed', 'surfaceDistort', 'surfaceSpeed'];
+
+/** Uniforms held at a fixed base value (pitch may still modulate numberOfWaves around it) */
+export const STATIC_UNIFORM_KEYS = [
+  'frequency',
+  'surfaceFrequency',
+  'numberOfWaves',
+  'fixNormals',
+  'gooPoleAmount',
+  'surfacePoleAmount',
+  'hueOffset',
+  'saturation',
+] as const;
+
+export type StaticUniformKey = (typeof STATIC_UNIFORM_KEYS)[number];
+
+/**
+ * Global look store — everything visual that used to be constants in
+ * BlobMaterial / VoiceReactiveBlob / App. Read per-frame by the blob and
+ * lights through `blobLook`; written by presets, palettes and the palette
+ * editor, which blend colours in place and then notify.
+ */
+export const lookStore = createStore(createDefaultLook());
+
+/** The live look object, for per-frame reads */
+export const blobLook = lookStore.state;
+
+export type BlobLook = ReturnType<typeof createDefaultLook>;
+
+export function createDefaultLook() {
+  const uniforms = {} as Record<StaticUniformKey, number>;
+  for (const key of STATIC_UNIFORM_KEYS) uniforms[key] = BLOB_DEFAULTS[key];
+
+  return {
+    uniforms,
+    /** Idle blob parameters — the modulation matrix adds voice-driven offsets */
+    idle: {
+      distort: BLOB_DEFAULTS.distort,
+      speed: BLOB_DEFAULTS.speed,
+      surfaceDistort: BLOB_DEFAULTS.surfaceDistort,
+      surfaceSpeed: BLOB_DEFAULTS.surfaceSpeed,
+    } as MotionParams,
+    /** Scale at rest */
+    scaleIdle: 0.64,
+    /** Gradient stops, sheen, background and light colours */
+    ...resolvePalette(DEFAULT_PALETTE),
+  };
+}
+
+/** Deep copy of a look, frozen against later palette or preset edits */
+export function cloneLook(look: BlobLook): BlobLook {
+  return {
+    uniforms: { ...look.uniforms },
+    idle: { ...look.idle },
+    scaleIdle: look.scaleIdle,
+    ...clonePalette(look),
+  };
+}
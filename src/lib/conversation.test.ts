@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createVoiceDataMixer } from './conversation';
+import { createEmptyVoiceData } from './voiceAnalyser';
+import type { VoiceData } from './voiceAnalyser';
+
+const frame = (patch: Partial<VoiceData>): VoiceData => ({ ...createEmptyVoiceData(), ...patch });
+
+describe('createVoiceDataMixer', () => {
+  it("takes a new onset's strength from the party that produced it", () => {
+    const mixer = createVoiceDataMixer();
+    const out = createEmptyVoiceData();
+    mixer.mix(out, frame({ onsetCount: 1, onsetStrength: 0.9 }), frame({}), 0.5);
+
+    // The user's strength is stale; only the agent's onset is new
+    mixer.mix(out, frame({ onsetCount: 1, onsetStrength: 0.9 }), frame({ onsetCount: 1, onsetStrength: 0.2 }), 0.5);
+
+    expect(out.onsetCount).toBe(2);
+    expect(out.onsetStrength).toBeCloseTo(0.1);
+  });
+
+  it('drops band names neither party reports any more', () => {
+    const mixer = createVoiceDataMixer();
+    const out = createEmptyVoiceData();
+    mixer.mix(out, frame({ bands: { low: 1, mid: 1 } }), frame({ bands: { air: 1 } }), 0.5);
+    mixer.mix(out, frame({ bands: { low: 1 } }), frame({ bands: {} }), 0.5);
+
+    expect(Object.keys(out.bands)).toEqual(['low']);
+  });
+});
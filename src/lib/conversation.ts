@@ -0,0 +1,100 @@
+/**
+ * Two-party conversation mode — the user's voice and the agent's voice, each
+ * with its own analyser and palette. Layouts place two blobs side by side or
+ * orbiting each other, or merge them into one blob whose palette (and look)
+ * leans towards whoever is talking.
+ */
+import { blendPalette } from './palette';
+import { MOTION_KEYS, STATIC_UNIFORM_KEYS } from './blobLook';
+import type { BlobLook } from './blobLook';
+import type { VoiceData } from './voiceAnalyser';
+
+export const CONVERSATION_LAYOUTS = ['off', 'side-by-side', 'orbit', 'blend'] as const;
+
+export type ConversationLayout = (typeof CONVERSATION_LAYOUTS)[number];
+
+/** The agent's palette until one is picked — distinct from the default user palette */
+export const AGENT_DEFAULT_PALETTE = 'Lagoon';
+
+/** How quickly the turn follows a change of speaker, in seconds */
+const TURN_EASE_S = 0.35;
+
+/** How much a party is talking right now — loudness while the VAD says speech */
+function activity(v: VoiceData) {
+  return v.isSpeaking ? v.amplitude : 0;
+}
+
+/**
+ * Tracks whose turn it is as a weight: 0 = the user, 1 = the agent. The
+ * weight eases towards the louder active speaker and holds through silence,
+ * so the look doesn't snap back between sentences.
+ */
+export function createTurnTracker(initial = 0) {
+  let turn = initial;
+  return {
+    /** dt in seconds */
+    update(user: VoiceData, agent: VoiceData, dt: number) {
+      const u = activity(user);
+      const a = activity(agent);
+      if (u + a > 0) {
+        turn += (a / (u + a) - turn) * (1 - Math.exp(-dt / TURN_EASE_S));
+      }
+      return turn;
+    },
+  };
+}
+
+const lerp = (a: number, b: number, t: number) => a * (1 - t) + b * t;
+
+/**
+ * Mixes two parties' frames into one. It remembers each party's onset count,
+ * so a new pulse takes its strength from whoever produced it.
+ */
+export function createVoiceDataMixer() {
+  let userOnsets = 0;
+  let agentOnsets = 0;
+  return {
+    /** Writes a weighted mix of two parties' frames into `out` (w = agent share) */
+    mix(out: VoiceData, user: VoiceData, agent: VoiceData, w: number) {
+      out.amplitude = lerp(user.amplitude, agent.amplitude, w);
+      out.lowEnergy = lerp(user.lowEnergy, agent.lowEnergy, w);
+      out.midEnergy = lerp(user.midEnergy, agent.midEnergy, w);
+      out.highEnergy = lerp(user.highEnergy, agent.highEnergy, w);
+      for (const name in out.bands) {
+        if (!(name in user.bands) && !(name in agent.bands)) delete out.bands[name];
+      }
+      for (const name in user.bands) out.bands[name] = lerp(user.bands[name], agent.bands[name] ?? 0, w);
+      for (const name in agent.bands) {
+        if (!(name in user.bands)) out.bands[name] = agent.bands[name] * w;
+      }
+      out.pitchHz = lerp(user.pitchHz, agent.pitchHz, w);
+      out.pitchConfidence = lerp(user.pitchConfidence, agent.pitchConfidence, w);
+      out.isSpeaking = user.isSpeaking || agent.isSpeaking;
+      // Either party's onsets pulse the blob; counts drop back on an analyser reset
+      const userOnset = user.onsetCount > userOnsets;
+      const agentOnset = agent.onsetCount > agentOnsets;
+      if (userOnset || agentOnset) {
+        out.onsetStrength = Math.max(
+          userOnset ? user.onsetStrength * (1 - w) : 0,
+          agentOnset ? agent.onsetStrength * w : 0
+        );
+      }
+      userOnsets = user.onsetCount;
+      agentOnsets = agent.onsetCount;
+      out.onsetCount = user.onsetCount + agent.onsetCount;
+      out.centroidHz = lerp(user.centroidHz, agent.centroidHz, w);
+      out.rolloffHz = lerp(user.rolloffHz, agent.rolloffHz, w);
+      out.flatness = lerp(user.flatness, agent.flatness, w);
+      out.zeroCrossingRate = lerp(user.zeroCrossingRate, agent.zeroCrossingRate, w);
+      return out;
+    },
+  };
+}
+
+/** Writes the blend of two looks into `out`, in place */
+export function blendLooks(out: BlobLook, user: BlobLook, agent: BlobLook, w: number) {
+  for (const key of STATIC_UNIFORM_KEYS) out.uniforms[key] = lerp(user.uniforms[key], agent.uniforms[key], w);
+  for (const key of MOTION_KEYS) out.idle[key] = lerp(user.idle[key], agent.idle[key], w);
+  out.scaleIdle = lerp(user.scaleIdle, agent.scaleIdle, w);
+  blendPalette(out, user, agent, w);
+}
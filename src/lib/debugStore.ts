@@ -1,11 +1,44 @@
+import { DEFAULT_FFT_SIZE } from './frequencyBands';
+import { createDefaultAnalyserSettings } from './voiceAnalyser';
+import { createDefaultModRoutes } from './modulation';
+import { createStore } from './store';
+
+export type PitchTarget = 'none' | 'hue' | 'waves';
+/** VoiceData timbre feature driving a material property */
+export type TimbreSource = 'none' | 'centroid' | 'rolloff' | 'flatness' | 'zcr';
+
 /**
- * Global mutable settings store.
- * Written by the DebugPanel UI, read per-frame by the blob and voice analyser.
- * Using a plain object (not React state) so reads in useFrame don't cause re-renders.
+ * Global settings store.
+ * Written by the DebugPanel UI, presets and replays through settingsStore.set();
+ * components observe it with useStore().
  */
-export const debugStore = {
-  sensitivity: 3.0,
-  noiseGate: 0.08,
-  animationSpeed: 1.0,
-  isMuted: false,
-};
+export const settingsStore = createStore(createDefaultDebugSettings());
+
+/**
+ * The live settings object, read per-frame by the blob and voice analyser.
+ * A plain object (not React state) so reads in useFrame don't cause re-renders.
+ * Also serves as the live VoiceAnalyserSettings of the app's analyser.
+ */
+export const debugStore = settingsStore.state;
+
+export type DebugSettings = ReturnType<typeof createDefaultDebugSettings>;
+
+/** Fresh copy of the factory defaults — also the "reset to defaults" source */
+export function createDefaultDebugSettings() {
+  return {
+    // sensitivity, noiseGate, bands, isMuted, vadGate, adaptiveGate
+    ...createDefaultAnalyserSettings(),
+    animationSpeed: 1.0,
+    fftSize: DEFAULT_FFT_SIZE,
+    /** What the blob does with tracked pitch: nothing, shift gradient hue, or vary wave count */
+    pitchTarget: 'hue' as PitchTarget,
+    /** Strength multiplier for onset pulses (0 disables them) */
+    onsetPulse: 1.0,
+    /** Timbre routing — breathy voices go matte and velvety, bright ones shimmer */
+    roughnessSource: 'flatness' as TimbreSource,
+    iridescenceSource: 'centroid' as TimbreSource,
+    sheenSource: 'zcr' as TimbreSource,
+    /** Modulation matrix — replaced wholesale on edit, like bands */
+    modRoutes: createDefaultModRoutes(),
+  };
+}
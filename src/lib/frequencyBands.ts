@@ -0,0 +1,48 @@
+/**
+ * Frequency band definitions for the voice analyser.
+ * Bands are expressed in Hz so their edges stay put regardless of the device
+ * sample rate or the analyser fftSize; they are mapped to FFT bins per frame.
+ */
+export interface FrequencyBand {
+  /** Key under which the band's energy is published in VoiceData.bands */
+  name: string;
+  minHz: number;
+  maxHz: number;
+  /** Per-band multiplier applied on top of the global sensitivity */
+  gain: number;
+  /** Calibrated noise gate (0..1); falls back to the global noiseGate when unset */
+  gate?: number;
+}
+
+/** Voice-oriented defaults: fundamentals, formants/vowels, sibilance. */
+export const DEFAULT_BANDS: readonly FrequencyBand[] = [
+  { name: 'low', minHz: 80, maxHz: 250, gain: 1.0 },
+  { name: 'mid', minHz: 250, maxHz: 2000, gain: 1.2 },
+  { name: 'high', minHz: 2000, maxHz: 8000, gain: 0.8 },
+];
+
+/** Highest band edge, in Hz — Nyquist at the highest sample rate browsers run at */
+export const MAX_BAND_HZ = 96000;
+
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192] as const;
+export const DEFAULT_FFT_SIZE = 1024;
+
+/**
+ * Maps a band to a half-open FFT bin range [from, to).
+ * Always returns at least one bin so narrow bands at low resolution still read.
+ */
+export function bandToBins(
+  band: FrequencyBand,
+  sampleRate: number,
+  fftSize: number,
+  binCount: number
+): [number, number] {
+  const binHz = sampleRate / fftSize;
+  const from = Math.max(0, Math.min(binCount - 1, Math.floor(band.minHz / binHz)));
+  const to = Math.max(from + 1, Math.min(binCount, Math.ceil(band.maxHz / binHz)));
+  return [from, to];
+}
+
+export function cloneBands(bands: readonly FrequencyBand[]): FrequencyBand[] {
+  return bands.map((b) => ({ ...b }));
+}
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configuredHostOrigins } from './hostProtocol';
+
+describe('configuredHostOrigins', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('normalises entries to bare origins', () => {
+    vi.stubEnv('VITE_HOST_ORIGINS', ' https://host.example/app/ , http://localhost:3000,*');
+
+    expect(configuredHostOrigins()).toEqual(['https://host.example', 'http://localhost:3000', '*']);
+  });
+
+  it('drops entries that are not origins, with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('VITE_HOST_ORIGINS', 'host.example,https://ok.example,data:text/plain,');
+
+    expect(configuredHostOrigins()).toEqual(['https://ok.example']);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
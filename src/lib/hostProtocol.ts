@@ -0,0 +1,247 @@
+/**
+ * Host-page control protocol for iframe embedding.
+ *
+ * The host talks to the app with window.postMessage. Every message is a
+ * plain object tagged with `protocol: 'voice-blob'` and a `version`:
+ *
+ *   host → app   { type: 'request', id, method, params? }
+ *   app → host   { type: 'response', id, ok: true, result }
+ *                { type: 'response', id, ok: false, error: { code, message, reason? } }
+ *   app → host   { type: 'event', event, data }
+ *
+ * Requests are only accepted from the parent window at an allow-listed
+ * origin; the first accepted request pins that origin as the target for
+ * events. A 'ready' event is posted to every allowed origin on start-up.
+ * Other messages (other libraries, other protocols) are ignored silently.
+ */
+import type { AssistantState } from './assistantState';
+import type { AudioSourceKind } from './audioSources';
+
+export const HOST_PROTOCOL = 'voice-blob';
+export const HOST_PROTOCOL_VERSION = 1;
+
+export const HOST_METHODS = [
+  'hello',
+  'subscribe',
+  'getState',
+  'startListening',
+  'stopListening',
+  'setMuted',
+  'listPresets',
+  'applyPreset',
+  'setAssistantState',
+] as const;
+
+export type HostMethod = (typeof HOST_METHODS)[number];
+
+export const HOST_EVENTS = ['ready', 'state', 'speaking', 'levels', 'error'] as const;
+
+export type HostEvent = (typeof HOST_EVENTS)[number];
+
+export type HostErrorCode =
+  | 'unsupported-version'
+  | 'unknown-method'
+  | 'invalid-params'
+  /** The method ran and failed — `reason` carries a more specific code (e.g. a MicErrorCode) */
+  | 'failed';
+
+export interface HostError {
+  code: HostErrorCode;
+  message: string;
+  reason?: string;
+}
+
+export function hostError(code: HostErrorCode, message: string, reason?: string): HostError {
+  return { code, message, ...(reason && { reason }) };
+}
+
+function isHostError(v: unknown): v is HostError {
+  const e = v as HostError | null;
+  return !!e && typeof e === 'object' && typeof e.code === 'string' && typeof e.message === 'string';
+}
+
+/** Snapshot returned by getState and sent with every 'state' event */
+export interface HostState {
+  isListening: boolean;
+  isSpeaking: boolean;
+  isMuted: boolean;
+  isCalibrating: boolean;
+  /** What the blob is following — null before anything is started */
+  source: AudioSourceKind | 'replay' | 'feed' | null;
+  preset: string | null;
+  assistantState: AssistantState;
+}
+
+interface Envelope {
+  protocol: typeof HOST_PROTOCOL;
+  version: number;
+}
+
+export interface HostRequest extends Envelope {
+  type: 'request';
+  id: string | number;
+  method: string;
+  params?: unknown;
+}
+
+export type HostResponse = Envelope & { type: 'response'; id: string | number } & (
+    | { ok: true; result: unknown }
+    | { ok: false; error: HostError }
+  );
+
+export interface HostEventMessage extends Envelope {
+  type: 'event';
+  event: HostEvent;
+  data: unknown;
+}
+
+const envelope = (): Envelope => ({ protocol: HOST_PROTOCOL, version: HOST_PROTOCOL_VERSION });
+
+function isRequest(v: unknown): v is HostRequest {
+  const m = v as HostRequest | null;
+  return (
+    !!m &&
+    typeof m === 'object' &&
+    m.protocol === HOST_PROTOCOL &&
+    m.type === 'request' &&
+    (typeof m.id === 'string' || typeof m.id === 'number') &&
+    typeof m.method === 'string'
+  );
+}
+
+/** Reads `params` as an object, rejecting anything else */
+export function paramsObject(params: unknown): Record<string, unknown> {
+  if (params === undefined) return {};
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    throw hostError('invalid-params', 'params must be an object');
+  }
+  return params as Record<string, unknown>;
+}
+
+/** App-side implementations; hello and subscribe are handled by the bridge itself */
+export type HostHandlers = Record<
+  Exclude<HostMethod, 'hello' | 'subscribe'>,
+  (params: unknown) => unknown
+>;
+
+export interface HostBridgeConfig {
+  /** Origins allowed to send requests; '*' allows any */
+  allowedOrigins: readonly string[];
+  handlers: HostHandlers;
+  /** The host window (default: window.parent) */
+  host?: Window;
+}
+
+/**
+ * Origins allowed to control the app, from VITE_HOST_ORIGINS (comma-separated,
+ * set at build time). Empty — the default — disables the protocol. Entries
+ * are normalised to bare origins; ones that aren't URLs are dropped with a
+ * warning, since postMessage would throw on them.
+ */
+export function configuredHostOrigins(): string[] {
+  const raw: unknown = import.meta.env.VITE_HOST_ORIGINS;
+  if (typeof raw !== 'string') return [];
+  return raw
+    .split(',')
+    .map((o) => o.trim())
+    .filter(Boolean)
+    .flatMap((o) => {
+      if (o === '*') return [o];
+      try {
+        const { origin } = new URL(o);
+        if (origin !== 'null') return [origin];
+      } catch {
+        // Reported below
+      }
+      console.warn(`Ignoring VITE_HOST_ORIGINS entry "${o}": not a valid origin`);
+      return [];
+    });
+}
+
+/**
+ * Listens for host requests and answers them; emit() sends events to the
+ * connected host. Handlers may be async and may throw a HostError (or any
+ * Error, reported as 'failed'). Call dispose() to stop listening.
+ */
+export function createHostBridge({ allowedOrigins, handlers, host = window.parent }: HostBridgeConfig) {
+  const anyOrigin = allowedOrigins.includes('*');
+  let hostOrigin: string | null = null;
+  let subscriptions = new Set<HostEvent>(HOST_EVENTS);
+
+  const post = (message: HostResponse | HostEventMessage, targetOrigin: string) => {
+    host.postMessage(message, targetOrigin);
+  };
+
+  const builtIns = {
+    hello: () => ({
+      version: HOST_PROTOCOL_VERSION,
+      methods: HOST_METHODS,
+      events: HOST_EVENTS,
+    }),
+    subscribe: (params: unknown) => {
+      const { events } = paramsObject(params);
+      if (
+        !Array.isArray(events) ||
+        !events.every((e) => (HOST_EVENTS as readonly unknown[]).includes(e))
+      ) {
+        throw hostError('invalid-params', `events must be a list of: ${HOST_EVENTS.join(', ')}`);
+      }
+      subscriptions = new Set(events as HostEvent[]);
+      return { events: [...subscriptions] };
+    },
+  };
+
+  const onMessage = async (e: MessageEvent) => {
+    if (e.source !== host || !(anyOrigin || allowedOrigins.includes(e.origin))) return;
+    if (!isRequest(e.data)) return;
+    const { id, method, params, version } = e.data;
+    const respond = (body: { ok: true; result: unknown } | { ok: false; error: HostError }) =>
+      post({ ...envelope(), type: 'response', id, ...body }, e.origin);
+
+    if (version !== HOST_PROTOCOL_VERSION) {
+      respond({
+        ok: false,
+        error: hostError('unsupported-version', `Protocol version ${HOST_PROTOCOL_VERSION} only`),
+      });
+      return;
+    }
+    const handler = Object.hasOwn(builtIns, method)
+      ? builtIns[method as keyof typeof builtIns]
+      : Object.hasOwn(handlers, method)
+        ? handlers[method as keyof HostHandlers]
+        : null;
+    if (!handler) {
+      respond({ ok: false, error: hostError('unknown-method', `Unknown method "${method}"`) });
+      return;
+    }
+
+    hostOrigin ??= e.origin;
+    try {
+      respond({ ok: true, result: (await handler(params)) ?? null });
+    } catch (err) {
+      respond({
+        ok: false,
+        error: isHostError(err) ? err : hostError('failed', err instanceof Error ? err.message : String(err)),
+      });
+    }
+  };
+
+  window.addEventListener('message', onMessage);
+
+  // Announce to whichever allowed origin the host turns out to be
+  const ready: HostEventMessage = { ...envelope(), type: 'event', event: 'ready', data: builtIns.hello() };
+  for (const origin of anyOrigin ? ['*'] : allowedOrigins) post(ready, origin);
+
+  return {
+    /** Sends an event to the connected host, if it's subscribed to it */
+    emit(event: HostEvent, data: unknown) {
+      if (!hostOrigin || !subscriptions.has(event)) return;
+      post({ ...envelope(), type: 'event', event, data }, hostOrigin);
+    },
+    dispose() {
+      window.removeEventListener('message', onMessage);
+    },
+  };
+}
+
+export type HostBridge = ReturnType<typeof createHostBridge>;
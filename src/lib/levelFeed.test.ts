@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { FEED_FRAME_LEVELS, FEED_FRAME_PCM16, FEED_FRAME_PCM32, parseFeedFrame } from './levelFeed';
+
+function levelsFrame(amplitude: number, bands: number[], isSpeaking = false) {
+  const view = new DataView(new ArrayBuffer(8 + bands.length * 4));
+  view.setUint8(0, FEED_FRAME_LEVELS);
+  view.setUint8(1, isSpeaking ? 1 : 0);
+  view.setUint16(2, bands.length, true);
+  view.setFloat32(4, amplitude, true);
+  bands.forEach((v, i) => view.setFloat32(8 + i * 4, v, true));
+  return view.buffer;
+}
+
+function pcmFrame(kind: number, sampleRate: number, samples: number[]) {
+  const bytes = kind === FEED_FRAME_PCM16 ? 2 : 4;
+  const view = new DataView(new ArrayBuffer(8 + samples.length * bytes));
+  view.setUint8(0, kind);
+  view.setUint32(4, sampleRate, true);
+  samples.forEach((v, i) => {
+    if (bytes === 2) view.setInt16(8 + i * 2, v, true);
+    else view.setFloat32(8 + i * 4, v, true);
+  });
+  return view.buffer;
+}
+
+describe('parseFeedFrame — JSON', () => {
+  it('reads a levels message', () => {
+    const frame = parseFeedFrame(
+      JSON.stringify({ type: 'levels', amplitude: 0.4, bands: { low: 0.3 }, isSpeaking: true, onset: 0.7 })
+    );
+
+    expect(frame).toEqual({
+      type: 'levels',
+      amplitude: 0.4,
+      bands: { low: 0.3 },
+      isSpeaking: true,
+      pitchHz: undefined,
+      pitchConfidence: undefined,
+      onset: 0.7,
+    });
+  });
+
+  it('ignores malformed messages', () => {
+    expect(parseFeedFrame('{')).toBeNull();
+    expect(parseFeedFrame(JSON.stringify({ type: 'other', amplitude: 0.4, bands: [] }))).toBeNull();
+    expect(parseFeedFrame(JSON.stringify({ type: 'levels', amplitude: 0.4, bands: ['x'] }))).toBeNull();
+  });
+});
+
+describe('parseFeedFrame — binary levels', () => {
+  it('reads amplitude, bands and the speaking flag', () => {
+    const frame = parseFeedFrame(levelsFrame(0.5, [0.25, 0.75], true));
+
+    expect(frame).toEqual({ type: 'levels', amplitude: 0.5, bands: [0.25, 0.75], isSpeaking: true });
+  });
+
+  it('rejects a frame shorter than its band count', () => {
+    expect(parseFeedFrame(levelsFrame(0.5, [0.25, 0.75]).slice(0, 12))).toBeNull();
+    expect(parseFeedFrame(new ArrayBuffer(4))).toBeNull();
+  });
+
+  it.each([NaN, Infinity, -Infinity])('rejects a frame carrying %s', (bad) => {
+    expect(parseFeedFrame(levelsFrame(bad, [0.25]))).toBeNull();
+    expect(parseFeedFrame(levelsFrame(0.5, [0.25, bad]))).toBeNull();
+  });
+});
+
+describe('parseFeedFrame — PCM', () => {
+  it('scales int16 samples to -1..1', () => {
+    const frame = parseFeedFrame(pcmFrame(FEED_FRAME_PCM16, 16000, [16384, -32768]));
+
+    expect(frame).toEqual({ type: 'pcm', sampleRate: 16000, samples: new Float32Array([0.5, -1]) });
+  });
+
+  it('reads float32 samples and zeroes non-finite ones', () => {
+    const frame = parseFeedFrame(pcmFrame(FEED_FRAME_PCM32, 48000, [0.25, NaN, Infinity, -0.5]));
+
+    expect(frame).toEqual({ type: 'pcm', sampleRate: 48000, samples: new Float32Array([0.25, 0, 0, -0.5]) });
+  });
+
+  it('drops a trailing partial sample', () => {
+    const frame = parseFeedFrame(pcmFrame(FEED_FRAME_PCM32, 48000, [0.25, 0.5]).slice(0, 14));
+
+    expect(frame).toEqual({ type: 'pcm', sampleRate: 48000, samples: new Float32Array([0.25]) });
+  });
+
+  it('rejects an implausible sample rate', () => {
+    expect(parseFeedFrame(pcmFrame(FEED_FRAME_PCM16, 100, [0]))).toBeNull();
+    expect(parseFeedFrame(pcmFrame(FEED_FRAME_PCM16, 400000, [0]))).toBeNull();
+  });
+});
+
+describe('parseFeedFrame — other input', () => {
+  it('ignores unknown kinds and non-message values', () => {
+    const unknown = levelsFrame(0.5, []);
+    new DataView(unknown).setUint8(0, 9);
+
+    expect(parseFeedFrame(unknown)).toBeNull();
+    expect(parseFeedFrame(42)).toBeNull();
+    expect(parseFeedFrame(null)).toBeNull();
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * External level feed — drives the blob from audio that lives on a server,
+ * over a WebSocket. The server sends either ready-made levels or raw PCM;
+ * levels are written straight into the feed's VoiceData, PCM goes through
+ * the regular analyser core. `npm run feed-server` runs a local stand-in.
+ *
+ * JSON (text messages) — levels only:
+ *   { "type": "levels", "amplitude": 0.4, "bands": { "low": 0.3, "mid": 0.5, "high": 0.1 },
+ *     "isSpeaking": true, "pitchHz": 180, "pitchConfidence": 0.8, "onset": 0.7 }
+ *   amplitude and bands (0..1) are required; `bands` may also be an array in
+ *   the configured band order. `onset` (0..1) triggers an onset pulse.
+ *
+ * Binary (little-endian), 8-byte header then payload:
+ *   u8  kind    1 = levels, 2 = PCM int16, 3 = PCM float32
+ *   u8  flags   levels: bit 0 = isSpeaking
+ *   u16 count   levels: number of band values
+ *   levels: f32 amplitude at offset 4, then count × f32 bands (configured order)
+ *   PCM:    u32 sample rate at offset 4, then mono samples
+ */
+import { createEmptyVoiceData, createVoiceAnalyser } from './voiceAnalyser';
+import { createPcmFrameSource } from './pcmFrames';
+import type { DebugSettings } from './debugStore';
+import type { FrequencyBand } from './frequencyBands';
+import type { Store } from './store';
+
+export const FEED_FRAME_LEVELS = 1;
+export const FEED_FRAME_PCM16 = 2;
+export const FEED_FRAME_PCM32 = 3;
+const HEADER_BYTES = 8;
+
+export type FeedFrame =
+  | {
+      type: 'levels';
+      amplitude: number;
+      bands: Record<string, number> | number[];
+      isSpeaking?: boolean;
+      pitchHz?: number;
+      pitchConfidence?: number;
+      onset?: number;
+    }
+  | { type: 'pcm'; sampleRate: number; samples: Float32Array };
+
+/**
+ * live         — frames arriving
+ * stale        — connected, but nothing for staleMs; the blob is fading out
+ * connecting   — first attempt
+ * reconnecting — waiting out the backoff after a drop
+ */
+export type FeedStatus = 'connecting' | 'live' | 'stale' | 'reconnecting';
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** Decodes one message; null for anything malformed (which is then ignored) */
+export function parseFeedFrame(message: unknown): FeedFrame | null {
+  if (typeof message === 'string') {
+    let json: unknown;
+    try {
+      json = JSON.parse(message);
+    } catch {
+      return null;
+    }
+    const f = json as Extract<FeedFrame, { type: 'levels' }> | null;
+    if (!f || typeof f !== 'object' || f.type !== 'levels' || !isFiniteNumber(f.amplitude)) return null;
+    const bands = f.bands;
+    const validBands = Array.isArray(bands)
+      ? bands.every(isFiniteNumber)
+      : !!bands && typeof bands === 'object' && Object.values(bands).every(isFiniteNumber);
+    if (!validBands) return null;
+    return {
+      type: 'levels',
+      amplitude: f.amplitude,
+      bands,
+      isSpeaking: typeof f.isSpeaking === 'boolean' ? f.isSpeaking : undefined,
+      pitchHz: isFiniteNumber(f.pitchHz) ? f.pitchHz : undefined,
+      pitchConfidence: isFiniteNumber(f.pitchConfidence) ? f.pitchConfidence : undefined,
+      onset: isFiniteNumber(f.onset) ? f.onset : undefined,
+    };
+  }
+
+  if (!(message instanceof ArrayBuffer) || message.byteLength < HEADER_BYTES) return null;
+  const view = new DataView(message);
+  const kind = view.getUint8(0);
+  if (kind === FEED_FRAME_LEVELS) {
+    const count = view.getUint16(2, true);
+    if (message.byteLength < HEADER_BYTES + count * 4) return null;
+    // Rejected like the JSON form — one NaN would stick in the smoothed levels
+    const amplitude = view.getFloat32(4, true);
+    if (!Number.isFinite(amplitude)) return null;
+    const bands: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const value = view.getFloat32(HEADER_BYTES + i * 4, true);
+      if (!Number.isFinite(value)) return null;
+      bands.push(value);
+    }
+    return {
+      type: 'levels',
+      amplitude,
+      bands,
+      isSpeaking: (view.getUint8(1) & 1) === 1,
+    };
+  }
+  if (kind === FEED_FRAME_PCM16 || kind === FEED_FRAME_PCM32) {
+    const sampleRate = view.getUint32(4, true);
+    if (sampleRate < 8000 || sampleRate > 192000) return null;
+    const bytes = kind === FEED_FRAME_PCM16 ? 2 : 4;
+    const count = Math.floor((message.byteLength - HEADER_BYTES) / bytes);
+    const samples = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      const at = HEADER_BYTES + i * bytes;
+      if (bytes === 2) {
+        samples[i] = view.getInt16(at, true) / 32768;
+      } else {
+        // A non-finite sample would poison the smoothed spectrum for good
+        const sample = view.getFloat32(at, true);
+        samples[i] = Number.isFinite(sample) ? sample : 0;
+      }
+    }
+    return { type: 'pcm', sampleRate, samples };
+  }
+  return null;
+}
+
+/** The app's bands with the feed's own gates (by name) in place of the microphone's */
+function withFeedGates(bands: readonly FrequencyBand[], feedBands: readonly FrequencyBand[]) {
+  return bands.map(({ gate: _gate, ...band }) => {
+    const gate = feedBands.find((b) => b.name === band.name)?.gate;
+    return gate === undefined ? band : { ...band, gate };
+  });
+}
+
+/** Reconnect backoff: doubles from the base up to the cap, with jitter */
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10000;
+/** Levels glide towards each new frame over this time constant, in seconds */
+const LEVELS_SMOOTHING_S = 0.06;
+/** Once stale, levels fade to rest over this time constant */
+const STALE_FADE_S = 0.4;
+/** AnalyserNode settings the app's own analyser uses, for PCM frames */
+const PCM_SMOOTHING = 0.85;
+const PCM_MIN_DB = -90;
+const PCM_MAX_DB = -10;
+
+export interface LevelFeedConfig {
+  url: string;
+  /** Analyser settings for PCM frames, and band names for array-form levels */
+  settings: Store<DebugSettings>;
+  /** No frames for this long counts as stale, in ms */
+  staleMs?: number;
+  onStatus?: (status: FeedStatus) => void;
+}
+
+/**
+ * Connects (and keeps reconnecting) to a level feed. `data` is the VoiceData
+ * the blob should read; call tick() once per display frame to advance the
+ * level smoothing and the stale fade-out. Throws if the URL is invalid.
+ */
+export function createLevelFeed({ url, settings, staleMs = 500, onStatus }: LevelFeedConfig) {
+  const data = createEmptyVoiceData();
+  // Level frames set targets; tick() glides data towards them
+  const target = createEmptyVoiceData();
+  // The PCM core follows the app's settings, but on its own copy: gates it
+  // calibrates from remote audio must not land in the microphone's bands
+  const analyserSettings: DebugSettings = {
+    ...settings.state,
+    bands: withFeedGates(settings.state.bands, []),
+  };
+  const unsubscribe = settings.subscribe(() => {
+    Object.assign(analyserSettings, settings.state, {
+      bands: withFeedGates(settings.state.bands, analyserSettings.bands),
+    });
+  });
+  const core = createVoiceAnalyser({ settings: analyserSettings });
+  const pcm = createPcmFrameSource(
+    () => ({
+      fftSize: settings.state.fftSize,
+      smoothing: PCM_SMOOTHING,
+      minDecibels: PCM_MIN_DB,
+      maxDecibels: PCM_MAX_DB,
+    }),
+    // Shares the core's bands object; a switch to levels mode replaces it
+    (frame) => Object.assign(data, core.process(frame))
+  );
+  const silence = new Float32Array(8192);
+
+  let mode: FeedFrame['type'] | null = null;
+  let pcmSampleRate = 0;
+  let lastFrameAt = -Infinity;
+  let lastTickAt = -1;
+  let status: FeedStatus = 'connecting';
+  let socket: WebSocket | null = null;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const setStatus = (next: FeedStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatus?.(next);
+  };
+
+  const applyLevels = (frame: Extract<FeedFrame, { type: 'levels' }>) => {
+    if (mode !== 'levels') {
+      mode = 'levels';
+      Object.assign(data, createEmptyVoiceData());
+    }
+    target.amplitude = clamp01(frame.amplitude);
+    const names = settings.state.bands.map((b) => b.name);
+    target.bands = {};
+    if (Array.isArray(frame.bands)) {
+      frame.bands.forEach((v, i) => {
+        if (i < names.length) target.bands[names[i]] = clamp01(v);
+      });
+    } else {
+      for (const [name, v] of Object.entries(frame.bands)) target.bands[name] = clamp01(v);
+    }
+    target.isSpeaking = frame.isSpeaking ?? target.amplitude > 0.05;
+    if (frame.pitchHz !== undefined) target.pitchHz = frame.pitchHz;
+    target.pitchConfidence = clamp01(frame.pitchConfidence ?? 0);
+    if (frame.onset !== undefined && frame.onset > 0) {
+      data.onsetStrength = clamp01(frame.onset);
+      data.onsetCount++;
+    }
+  };
+
+  const onMessage = (e: MessageEvent) => {
+    const frame = parseFeedFrame(e.data);
+    if (!frame) return;
+    lastFrameAt = performance.now();
+    setStatus('live');
+    if (frame.type === 'levels') {
+      applyLevels(frame);
+    } else {
+      if (mode !== 'pcm' || frame.sampleRate !== pcmSampleRate) {
+        mode = 'pcm';
+        pcmSampleRate = frame.sampleRate;
+        core.reset();
+        pcm.reset();
+      }
+      pcm.push(frame.samples, frame.sampleRate);
+    }
+  };
+
+  const connect = () => {
+    retryTimer = null;
+    const ws = new WebSocket(url);
+    ws.binaryType = 'arraybuffer';
+    ws.onopen = () => {
+      attempt = 0;
+      setStatus('stale');
+    };
+    ws.onmessage = onMessage;
+    ws.onclose = () => {
+      if (closed || socket !== ws) return;
+      socket = null;
+      const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt++);
+      retryTimer = setTimeout(connect, delay * (0.5 + Math.random() * 0.5));
+      setStatus('reconnecting');
+    };
+    socket = ws;
+  };
+
+  connect();
+
+  return {
+    data,
+    get status() {
+      return status;
+    },
+    /** now in ms (performance.now / rAF clock) */
+    tick(now: number) {
+      const dt = lastTickAt < 0 ? 0 : Math.min(0.1, (now - lastTickAt) / 1000);
+      lastTickAt = now;
+      const stale = now - lastFrameAt > staleMs;
+      if (stale && status === 'live') setStatus('stale');
+
+      if (mode === 'pcm') {
+        // Silence lets the analyser's own release envelopes do the fade
+        const gap = Math.min(silence.length, Math.round(dt * pcmSampleRate));
+        if (stale && gap > 0) pcm.push(silence.subarray(0, gap), pcmSampleRate);
+        return;
+      }
+
+      if (stale) {
+        target.amplitude = 0;
+        for (const name in target.bands) target.bands[name] = 0;
+        target.isSpeaking = false;
+        target.pitchConfidence = 0;
+      }
+      const k = 1 - Math.exp(-dt / (stale ? STALE_FADE_S : LEVELS_SMOOTHING_S));
+      data.amplitude += (target.amplitude - data.amplitude) * k;
+      for (const name in target.bands) {
+        data.bands[name] = (data.bands[name] ?? 0) + (target.bands[name] - (data.bands[name] ?? 0)) * k;
+      }
+      data.lowEnergy = data.bands.low ?? 0;
+      data.midEnergy = data.bands.mid ?? 0;
+      data.highEnergy = data.bands.high ?? 0;
+      data.pitchHz += (target.pitchHz - data.pitchHz) * k;
+      data.pitchConfidence += (target.pitchConfidence - data.pitchConfidence) * k;
+      data.isSpeaking = target.isSpeaking;
+    },
+    close() {
+      closed = true;
+      unsubscribe();
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+    },
+  };
+}
+
+export type LevelFeed = ReturnType<typeof createLevelFeed>;
@@ -0,0 +1,44 @@
+import { createStore } from './store';
+import type { VoiceData } from './voiceAnalyser';
+
+/** The slice of VoiceData shown outside the render loop (meters, readouts) */
+export interface VoiceLevels {
+  amplitude: number;
+  bands: Record<string, number>;
+  isSpeaking: boolean;
+  pitchHz: number;
+  pitchConfidence: number;
+  centroidHz: number;
+  flatness: number;
+  zeroCrossingRate: number;
+}
+
+/**
+ * Live audio levels for UI, published by the blob a few times a second
+ * (whatever data it's drawing — live or replayed). Components observe it with
+ * useStore(); per-frame code should read its own VoiceData ref instead.
+ */
+export const levelsStore = createStore<VoiceLevels>({
+  amplitude: 0,
+  bands: {},
+  isSpeaking: false,
+  pitchHz: 0,
+  pitchConfidence: 0,
+  centroidHz: 0,
+  flatness: 0,
+  zeroCrossingRate: 0,
+});
+
+/** Copies the displayed fields of a frame into levelsStore */
+export function publishLevels(v: VoiceData) {
+  levelsStore.set({
+    amplitude: v.amplitude,
+    bands: { ...v.bands },
+    isSpeaking: v.isSpeaking,
+    pitchHz: v.pitchHz,
+    pitchConfidence: v.pitchConfidence,
+    centroidHz: v.centroidHz,
+    flatness: v.flatness,
+    zeroCrossingRate: v.zeroCrossingRate,
+  });
+}
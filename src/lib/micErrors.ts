@@ -0,0 +1,73 @@
+/**
+ * Typed failures for starting audio capture, so the UI can show a recovery
+ * path for each instead of a generic "could not access microphone".
+ */
+export type MicErrorCode =
+  | 'permission-denied'
+  | 'no-device'
+  | 'device-busy'
+  | 'insecure-context'
+  | 'unsupported'
+  | 'audio-context'
+  | 'unknown';
+
+export interface MicError {
+  code: MicErrorCode;
+  /** Technical detail for logs — UI copy is chosen by code */
+  message: string;
+  cause?: unknown;
+}
+
+/** Which step of starting a source failed — decides how unknown errors read */
+export type MicErrorStage = 'context' | 'source';
+
+function micError(code: MicErrorCode, message: string, cause?: unknown): MicError {
+  return { code, message, cause };
+}
+
+/**
+ * Environment checks that make getUserMedia fail (or not exist) before any
+ * prompt is shown. Returns null when capture can be attempted.
+ */
+export function checkMicSupport(): MicError | null {
+  if (typeof window !== 'undefined' && window.isSecureContext === false) {
+    return micError('insecure-context', 'Microphone capture requires HTTPS or localhost');
+  }
+  if (!navigator.mediaDevices?.getUserMedia) {
+    return micError('unsupported', 'navigator.mediaDevices.getUserMedia is not available');
+  }
+  if (
+    !window.AudioContext &&
+    !(window as unknown as { webkitAudioContext?: unknown }).webkitAudioContext
+  ) {
+    return micError('unsupported', 'Web Audio is not available');
+  }
+  return null;
+}
+
+/** Maps a thrown getUserMedia / AudioContext error onto a MicError */
+export function toMicError(err: unknown, stage: MicErrorStage): MicError {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  const message = err instanceof Error || err instanceof DOMException ? err.message : String(err);
+
+  if (stage === 'context') return micError('audio-context', message, err);
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return micError('permission-denied', message, err);
+    case 'SecurityError':
+      // Thrown for blocked permission policies as well as insecure origins
+      return micError(window.isSecureContext ? 'permission-denied' : 'insecure-context', message, err);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return micError('no-device', message, err);
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return micError('device-busy', message, err);
+    default:
+      return micError('unknown', message, err);
+  }
+}
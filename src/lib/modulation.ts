@@ -0,0 +1,207 @@
+/**
+ * Modulation matrix — declarative routes from VoiceData features to blob
+ * uniforms, mesh scale and rotation. Each route maps a normalised feature
+ * (0..1) through a curve onto an offset range, smoothed by its own
+ * attack/release, and the offsets of all routes on a target are summed on top
+ * of the target's base value (blobLook idle / static values).
+ */
+import { BLOB_DEFAULTS } from '../materials/BlobMaterial';
+import type { VoiceData } from './voiceAnalyser';
+import type { TimbreSource } from './debugStore';
+
+export const MOD_SOURCES = [
+  'amplitude',
+  'low',
+  'mid',
+  'high',
+  'midHigh',
+  'band',
+  'pitch',
+  'pitchConfidence',
+  'speaking',
+  'brightness',
+  'rolloff',
+  'flatness',
+  'zcr',
+] as const;
+
+export type ModSource = (typeof MOD_SOURCES)[number];
+
+/** Uniforms that accumulate time can't be modulated — writing them would jump */
+type AnimatedUniform = 'time' | 'surfaceTime';
+
+export const MOD_TARGETS = [
+  ...(Object.keys(BLOB_DEFAULTS) as (keyof typeof BLOB_DEFAULTS)[]).filter(
+    (k): k is Exclude<keyof typeof BLOB_DEFAULTS, AnimatedUniform> =>
+      k !== 'time' && k !== 'surfaceTime'
+  ),
+  'scale',
+  /** Rotation speeds in rad/s */
+  'rotationX',
+  'rotationY',
+] as const;
+
+export type ModTarget = (typeof MOD_TARGETS)[number];
+
+export type ModCurve = 'linear' | 'exp' | 'log';
+
+/** Route offsets stay within ±this */
+export const MOD_OFFSET_LIMIT = 100;
+/** Longest attack/release, in seconds */
+export const MOD_TIME_LIMIT_S = 30;
+
+export interface ModRoute {
+  id: string;
+  source: ModSource;
+  /** Band name when source is 'band' */
+  band?: string;
+  target: ModTarget;
+  /** Offset added to the target at feature 0 and at feature 1 */
+  min: number;
+  max: number;
+  curve: ModCurve;
+  /** Time constants in seconds for the feature rising / falling */
+  attack: number;
+  release: number;
+}
+
+/** Timbre feature ranges normalised to 0..1 — roughly voiced speech → whisper/hiss */
+const CENTROID_RANGE_HZ = [500, 4000];
+const ROLLOFF_RANGE_HZ = [1000, 8000];
+const FLATNESS_RANGE = [0.05, 0.6];
+const ZCR_RANGE = [0.02, 0.3];
+/** Pitch mapping — one octave either side of the reference spans the full range */
+const PITCH_REFERENCE_HZ = 160;
+
+/** Steepness of the exp/log curves */
+const CURVE_K = 4;
+const CURVE_NORM = Math.exp(CURVE_K) - 1;
+
+function normalise(value: number, [min, max]: number[], log = false) {
+  if (value <= 0) return 0;
+  const t = log
+    ? Math.log(value / min) / Math.log(max / min)
+    : (value - min) / (max - min);
+  return Math.max(0, Math.min(1, t));
+}
+
+/** A timbre feature scaled to 0..1, or null for 'none' */
+export function timbreFeature(v: VoiceData, source: TimbreSource) {
+  switch (source) {
+    case 'centroid': return normalise(v.centroidHz, CENTROID_RANGE_HZ, true);
+    case 'rolloff': return normalise(v.rolloffHz, ROLLOFF_RANGE_HZ, true);
+    case 'flatness': return normalise(v.flatness, FLATNESS_RANGE);
+    case 'zcr': return normalise(v.zeroCrossingRate, ZCR_RANGE);
+    default: return null;
+  }
+}
+
+/** Pitch in -1..1 octaves around the reference, weighted by voicing confidence */
+export function pitchAmount(v: VoiceData) {
+  if (v.pitchHz <= 0) return 0;
+  const octaves = Math.max(-1, Math.min(1, Math.log2(v.pitchHz / PITCH_REFERENCE_HZ)));
+  return octaves * v.pitchConfidence;
+}
+
+/**
+ * A VoiceData feature scaled to 0..1. Timbre features hold their last value
+ * through silence, so they're faded by loudness to return to rest.
+ */
+export function readFeature(v: VoiceData, source: ModSource, band?: string): number {
+  const presence = Math.min(1, v.amplitude * 3);
+  switch (source) {
+    case 'amplitude': return v.amplitude;
+    case 'low': return v.lowEnergy;
+    case 'mid': return v.midEnergy;
+    case 'high': return v.highEnergy;
+    case 'midHigh': return Math.max(v.midEnergy, v.highEnergy);
+    case 'band': return (band !== undefined && v.bands[band]) || 0;
+    case 'pitch': return v.pitchHz > 0 ? (pitchAmount(v) + v.pitchConfidence) / 2 : 0;
+    case 'pitchConfidence': return v.pitchConfidence;
+    case 'speaking': return v.isSpeaking ? 1 : 0;
+    case 'brightness': return (timbreFeature(v, 'centroid') ?? 0) * presence;
+    case 'rolloff': return (timbreFeature(v, 'rolloff') ?? 0) * presence;
+    case 'flatness': return (timbreFeature(v, 'flatness') ?? 0) * presence;
+    case 'zcr': return (timbreFeature(v, 'zcr') ?? 0) * presence;
+  }
+}
+
+/** exp starts slow and ends steep; log is its mirror */
+export function applyCurve(x: number, curve: ModCurve) {
+  switch (curve) {
+    case 'exp': return (Math.exp(CURVE_K * x) - 1) / CURVE_NORM;
+    case 'log': return Math.log(1 + CURVE_NORM * x) / CURVE_K;
+    default: return x;
+  }
+}
+
+/** Per-frame rates (at 60 fps) of the blob's original smoothing, as time constants */
+const SLOW_ATTACK_S = 0.83;   // 0.02 / frame
+const SLOW_RELEASE_S = 2.1;   // 0.008 / frame
+const SCALE_ATTACK_S = 0.27;  // 0.06 / frame
+const SCALE_RELEASE_S = 0.55; // 0.03 / frame
+
+let routeSeq = 0;
+
+export function createRouteId() {
+  return `route-${Date.now().toString(36)}-${(routeSeq++).toString(36)}`;
+}
+
+/**
+ * The blob's original hard-wired mappings: amplitude → distort, speed,
+ * surface speed and scale; max(mid, high) → surface distort. Ranges are
+ * offsets over the idle values — very tight, calming breath, not wobble.
+ */
+export function createDefaultModRoutes(): ModRoute[] {
+  const route = (
+    id: string,
+    source: ModSource,
+    target: ModTarget,
+    max: number,
+    attack = SLOW_ATTACK_S,
+    release = SLOW_RELEASE_S
+  ): ModRoute => ({ id, source, target, min: 0, max, curve: 'linear', attack, release });
+
+  return [
+    route('distort', 'amplitude', 'distort', 0.1),
+    route('speed', 'amplitude', 'speed', 0.08),
+    route('surfaceDistort', 'midHigh', 'surfaceDistort', 0.3),
+    route('surfaceSpeed', 'amplitude', 'surfaceSpeed', 0.08),
+    route('scale', 'amplitude', 'scale', 0.32, SCALE_ATTACK_S, SCALE_RELEASE_S),
+  ];
+}
+
+/**
+ * Runs routes against VoiceData. update() returns the summed offset per
+ * target; the returned object and all envelope state are reused, so a frame
+ * allocates nothing.
+ */
+export function createModulationMatrix() {
+  const envelopes = new Map<string, number>();
+  const offsets = {} as Record<ModTarget, number>;
+  for (const target of MOD_TARGETS) offsets[target] = 0;
+
+  return {
+    offsets: offsets as Readonly<Record<ModTarget, number>>,
+    /** dt in seconds */
+    update(routes: readonly ModRoute[], v: VoiceData, dt: number) {
+      for (const target of MOD_TARGETS) offsets[target] = 0;
+
+      for (let i = 0; i < routes.length; i++) {
+        const route = routes[i];
+        const x = applyCurve(readFeature(v, route.source, route.band), route.curve);
+        const current = envelopes.get(route.id) ?? 0;
+        const tau = x > current ? route.attack : route.release;
+        const env = tau > 0 ? current + (x - current) * (1 - Math.exp(-dt / tau)) : x;
+        envelopes.set(route.id, env);
+        offsets[route.target] += route.min + (route.max - route.min) * env;
+      }
+      return offsets;
+    },
+    reset() {
+      envelopes.clear();
+    },
+  };
+}
+
+export type ModulationMatrix = ReturnType<typeof createModulationMatrix>;
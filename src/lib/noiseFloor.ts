@@ -0,0 +1,73 @@
+/**
+ * Ambient noise-floor estimation for per-band noise gates.
+ *
+ * A calibration pass accumulates raw (ungated) band levels for a few seconds
+ * of room tone; each band's gate is then set a few standard deviations above
+ * its mean. Optionally the same statistics keep tracking a slowly drifting
+ * floor while nobody is speaking.
+ */
+
+export interface NoiseStats {
+  mean: number;
+  variance: number;
+}
+
+/** How long the initial / manual calibration listens to the room */
+export const CALIBRATION_MS = 3000;
+
+/** Standard deviations above the mean a level must reach to open the gate */
+const GATE_STD_MULTIPLIER = 3;
+/** Floor on the margin above the mean, so perfectly steady noise still gates */
+const GATE_MIN_MARGIN = 0.02;
+const GATE_MAX = 0.6;
+
+/** Per-frame EMA rate for continuous adaptation (~20 s time constant at 60 fps) */
+const ADAPT_RATE = 0.0008;
+
+export function gateFromStats({ mean, variance }: NoiseStats): number {
+  const margin = Math.max(GATE_MIN_MARGIN, GATE_STD_MULTIPLIER * Math.sqrt(variance));
+  return Math.min(GATE_MAX, mean + margin);
+}
+
+/**
+ * Accumulates per-band statistics (Welford) keyed by band name.
+ */
+export function createNoiseCalibration(startedAt: number, durationMs = CALIBRATION_MS) {
+  const acc: Record<string, { n: number; mean: number; m2: number }> = {};
+
+  return {
+    add(name: string, level: number) {
+      const a = (acc[name] ??= { n: 0, mean: 0, m2: 0 });
+      a.n++;
+      const d = level - a.mean;
+      a.mean += d / a.n;
+      a.m2 += d * (level - a.mean);
+    },
+    isDone(now: number) {
+      return now - startedAt >= durationMs;
+    },
+    /** 0..1 progress through the calibration window */
+    progress(now: number) {
+      return Math.min(1, (now - startedAt) / durationMs);
+    },
+    finish(): Record<string, NoiseStats> {
+      const stats: Record<string, NoiseStats> = {};
+      for (const [name, a] of Object.entries(acc)) {
+        stats[name] = { mean: a.mean, variance: a.n > 1 ? a.m2 / (a.n - 1) : 0 };
+      }
+      return stats;
+    },
+  };
+}
+
+export type NoiseCalibration = ReturnType<typeof createNoiseCalibration>;
+
+/**
+ * Nudges running statistics toward the current level (exponential moving
+ * mean/variance). Only call this on frames known to be non-speech.
+ */
+export function adaptNoiseStats(stats: NoiseStats, level: number, rate = ADAPT_RATE) {
+  const d = level - stats.mean;
+  stats.mean += d * rate;
+  stats.variance = (1 - rate) * (stats.variance + d * d * rate);
+}
@@ -0,0 +1,110 @@
+/**
+ * Frame-accurate analysis of a whole audio file: the file plays through an
+ * OfflineAudioContext with the same AnalyserNode pair as the live fallback
+ * engine, suspended at every video frame time so each frame gets exactly one
+ * analysis read. The result is one VoiceData per frame, independent of how
+ * fast the machine is.
+ */
+import { createVoiceAnalyser } from './voiceAnalyser';
+import type { VoiceAnalyserSettings, VoiceData } from './voiceAnalyser';
+import { smoothingPerHop } from './spectrumWorklet';
+
+/** Fixed rate, so results don't depend on the machine's output device */
+const ANALYSIS_SAMPLE_RATE = 48000;
+/** Mirrors the live AnalyserNode engine (useVoiceAnalyser) */
+const PITCH_WINDOW = 2048;
+const ANALYSER_SMOOTHING = 0.85;
+const ANALYSER_MIN_DB = -90;
+const ANALYSER_MAX_DB = -10;
+
+/** Above this, two frames can land in the same 128-sample render quantum */
+export const MAX_OFFLINE_FPS = 240;
+
+export interface OfflineAnalysis {
+  fps: number;
+  /** Seconds */
+  duration: number;
+  frames: VoiceData[];
+}
+
+export interface OfflineAnalysisOptions {
+  fps: number;
+  /** Analyser settings — written to by the core (gates), so pass a copy */
+  settings: VoiceAnalyserSettings & { fftSize: number };
+  /** 0..1 */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+function snapshotVoiceData(v: VoiceData): VoiceData {
+  return { ...v, bands: { ...v.bands } };
+}
+
+export async function decodeAudioFile(data: ArrayBuffer) {
+  const ctx = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  return ctx.decodeAudioData(data);
+}
+
+export async function analyseOffline(
+  buffer: AudioBuffer,
+  { fps, settings, onProgress, signal }: OfflineAnalysisOptions
+): Promise<OfflineAnalysis> {
+  if (!(fps > 0 && fps <= MAX_OFFLINE_FPS)) throw new Error(`Frame rate must be 1–${MAX_OFFLINE_FPS} fps.`);
+
+  // One spare render quantum, so a suspend rounded up past the last sample is still valid
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length + 128, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = settings.fftSize;
+  // The live engine reads ~60 times a second; scale the smoothing to this frame rate
+  analyser.smoothingTimeConstant = smoothingPerHop(ANALYSER_SMOOTHING, ctx.sampleRate, ctx.sampleRate / fps);
+  analyser.minDecibels = ANALYSER_MIN_DB;
+  analyser.maxDecibels = ANALYSER_MAX_DB;
+  const pitchAnalyser = ctx.createAnalyser();
+  pitchAnalyser.fftSize = PITCH_WINDOW;
+
+  source.connect(analyser);
+  source.connect(pitchAnalyser);
+  analyser.connect(ctx.destination);
+  source.start();
+
+  const core = createVoiceAnalyser({ settings });
+  const frequency = new Uint8Array(analyser.frequencyBinCount);
+  const timeDomain = new Float32Array(pitchAnalyser.fftSize);
+  const duration = buffer.duration;
+  const frameCount = Math.max(1, Math.ceil(duration * fps));
+  const frames: VoiceData[] = [];
+
+  const readFrame = (i: number) => {
+    analyser.getByteFrequencyData(frequency);
+    pitchAnalyser.getFloatTimeDomainData(timeDomain);
+    core.process({
+      frequency,
+      timeDomain,
+      fftSize: analyser.fftSize,
+      sampleRate: ctx.sampleRate,
+      minDecibels: analyser.minDecibels,
+      maxDecibels: analyser.maxDecibels,
+      time: (i * 1000) / fps,
+    });
+    frames[i] = snapshotVoiceData(core.data);
+    if (i % 30 === 0) onProgress?.(i / frameCount);
+  };
+
+  // Frame 0 is before any audio has played — read the empty analysers now
+  readFrame(0);
+  for (let i = 1; i < frameCount; i++) {
+    ctx.suspend(i / fps).then(() => {
+      // Aborted: skip the work but keep rendering moving so it can finish
+      if (!signal?.aborted) readFrame(i);
+      ctx.resume();
+    });
+  }
+
+  await ctx.startRendering();
+  signal?.throwIfAborted();
+  onProgress?.(1);
+  return { fps, duration, frames };
+}
@@ -0,0 +1,87 @@
+/**
+ * Spectral-flux onset detection.
+ *
+ * Flux is the summed positive change of the magnitude spectrum between
+ * consecutive frames — it spikes on plosives and syllable attacks that the
+ * envelope smoothing flattens out. An onset fires when flux clears an
+ * adaptive threshold (running mean + k·std) and the previous onset is at
+ * least minIntervalMs old.
+ */
+
+export interface OnsetOptions {
+  /** Standard deviations above the running flux mean required to fire */
+  sensitivity?: number;
+  /** Absolute floor on the threshold, in normalised flux units */
+  minFlux?: number;
+  /** Refractory period between onsets */
+  minIntervalMs?: number;
+  /** EMA rate for the running flux statistics */
+  adaptRate?: number;
+}
+
+export interface OnsetDetector {
+  /**
+   * Feed one byte spectrum over bins [from, to). Returns onset strength
+   * (0..1) when an onset fires on this frame, otherwise 0.
+   */
+  update(freqData: Uint8Array, from: number, to: number, now: number): number;
+  reset(): void;
+}
+
+export function createOnsetDetector({
+  sensitivity = 2.5,
+  minFlux = 0.015,
+  minIntervalMs = 90,
+  adaptRate = 0.05,
+}: OnsetOptions = {}): OnsetDetector {
+  let previous = new Float32Array(0);
+  let hasPrevious = false;
+  let mean = 0;
+  let variance = 0;
+  let lastOnsetAt = -Infinity;
+
+  return {
+    update(freqData, from, to, now) {
+      if (previous.length !== freqData.length) {
+        previous = new Float32Array(freqData.length);
+        hasPrevious = false;
+      }
+
+      let flux = 0;
+      for (let i = from; i < to; i++) {
+        const mag = freqData[i] / 255;
+        const rise = mag - previous[i];
+        if (rise > 0) flux += rise;
+        previous[i] = mag;
+      }
+      flux /= Math.max(1, to - from);
+
+      // The first frame after a (re)start has nothing to diff against
+      if (!hasPrevious) {
+        hasPrevious = true;
+        return 0;
+      }
+
+      const threshold = Math.max(minFlux, mean + sensitivity * Math.sqrt(variance));
+      let strength = 0;
+      if (flux > threshold && now - lastOnsetAt >= minIntervalMs) {
+        lastOnsetAt = now;
+        strength = Math.min(1, (flux - threshold) / threshold);
+      }
+
+      // Running statistics (EMA mean/variance)
+      const d = flux - mean;
+      mean += d * adaptRate;
+      variance = (1 - adaptRate) * (variance + d * d * adaptRate);
+
+      return strength;
+    },
+    reset() {
+      previous.fill(0);
+      hasPrevious = false;
+      mean = 0;
+      variance = 0;
+      lastOnsetAt = -Infinity;
+    },
+  };
+}
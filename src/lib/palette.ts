@@ -0,0 +1,281 @@
+/**
+ * Colour palettes — the mesh gradient's colour stops plus the sheen, light
+ * and background colours that go with them. Palettes are plain JSON (hex
+ * colours); blobLook holds the live, resolved form that the blob and lights
+ * read per-frame and that transitions blend in place.
+ */
+import * as THREE from 'three';
+import type { Store } from './store';
+
+/** Capacity of the shader's stop arrays — unused slots have zero weight */
+export const MAX_PALETTE_STOPS = 8;
+
+/** Default blend time when switching palettes */
+export const PALETTE_TRANSITION_MS = 1500;
+
+/** One bell of the gradient: a colour peaking at position (0..1) */
+export interface PaletteStop {
+  color: string;
+  position: number;
+  /** Bell spread — larger blends further into neighbouring stops */
+  width: number;
+  /** Relative strength against the other stops */
+  weight: number;
+}
+
+export const LIGHT_KEYS = ['ambient', 'key', 'fill', 'rim', 'top'] as const;
+export type LightKey = (typeof LIGHT_KEYS)[number];
+
+/** Every colour a palette controls */
+export interface PaletteColors {
+  stops: PaletteStop[];
+  sheenColor: string;
+  background: string;
+  lights: Record<LightKey, string>;
+}
+
+export interface Palette extends PaletteColors {
+  name: string;
+}
+
+/** A palette's live form — what blobLook holds */
+export interface ResolvedStop {
+  color: THREE.Color;
+  position: number;
+  width: number;
+  weight: number;
+}
+
+export interface ResolvedPalette {
+  stops: ResolvedStop[];
+  sheenColor: THREE.Color;
+  background: THREE.Color;
+  lights: Record<LightKey, THREE.Color>;
+}
+
+const stop = (color: string, position: number, width: number, weight: number): PaletteStop => ({
+  color,
+  position,
+  width,
+  weight,
+});
+
+export const BUILT_IN_PALETTES: Palette[] = [
+  {
+    // The original hand-tuned gradient: hot pink dominant, indigo + orange supporting
+    name: 'Blossom',
+    stops: [
+      stop('#e60278', 0.0, 0.38, 1.6),  // hot pink — two wide peaks wrapping the range
+      stop('#e60278', 1.0, 0.38, 1.4),
+      stop('#400dd9', 0.32, 0.32, 1.5), // deep indigo
+      stop('#592ef2', 0.44, 0.3, 1.3),  // blue-violet
+      stop('#ff8014', 0.72, 0.4, 1.1),  // warm orange
+      stop('#e00099', 0.18, 0.26, 0.8), // magenta bridge: pink → blue zone
+      stop('#fa334d', 0.58, 0.36, 0.9), // coral bridge: blue zone → orange
+    ],
+    sheenColor: '#e60278',
+    background: '#fcd9ef',
+    lights: { ambient: '#ffffff', key: '#ffffff', fill: '#8b2fc6', rim: '#e60278', top: '#00b4d8' },
+  },
+  {
+    name: 'Lagoon',
+    stops: [
+      stop('#00b4d8', 0.0, 0.38, 1.5),
+      stop('#0077b6', 0.3, 0.32, 1.4),
+      stop('#48cae4', 0.52, 0.3, 1.1),
+      stop('#90e0ef', 0.72, 0.36, 1.0),
+      stop('#06d6a0', 0.92, 0.34, 1.2),
+    ],
+    sheenColor: '#00b4d8',
+    background: '#d6f1f5',
+    lights: { ambient: '#ffffff', key: '#ffffff', fill: '#0077b6', rim: '#06d6a0', top: '#90e0ef' },
+  },
+  {
+    name: 'Dusk',
+    stops: [
+      stop('#8b2fc6', 0.0, 0.36, 1.5),
+      stop('#3a0ca3', 0.3, 0.3, 1.4),
+      stop('#f72585', 0.55, 0.34, 1.2),
+      stop('#ff9e00', 0.8, 0.34, 0.9),
+      stop('#7209b7', 1.0, 0.36, 1.2),
+    ],
+    sheenColor: '#8b2fc6',
+    background: '#2a1b3d',
+    lights: { ambient: '#ffffff', key: '#ffe9f4', fill: '#3a0ca3', rim: '#f72585', top: '#ff9e00' },
+  },
+  {
+    name: 'Citrus',
+    stops: [
+      stop('#ffb703', 0.0, 0.38, 1.5),
+      stop('#fb8500', 0.3, 0.32, 1.3),
+      stop('#ff5d8f', 0.55, 0.3, 1.0),
+      stop('#8ac926', 0.8, 0.34, 1.1),
+      stop('#ffd60a', 1.0, 0.36, 1.3),
+    ],
+    sheenColor: '#fb8500',
+    background: '#fff4d6',
+    lights: { ambient: '#ffffff', key: '#ffffff', fill: '#fb8500', rim: '#ff5d8f', top: '#8ac926' },
+  },
+  {
+    name: 'Mono',
+    stops: [
+      stop('#1f1f24', 0.0, 0.4, 1.2),
+      stop('#6b6b78', 0.35, 0.34, 1.2),
+      stop('#c9c9d3', 0.7, 0.36, 1.3),
+      stop('#ffffff', 1.0, 0.36, 1.0),
+    ],
+    sheenColor: '#9a9aa8',
+    background: '#ededf0',
+    lights: { ambient: '#ffffff', key: '#ffffff', fill: '#8a8a96', rim: '#d0d0d8', top: '#ffffff' },
+  },
+];
+
+export const DEFAULT_PALETTE = BUILT_IN_PALETTES[0];
+
+export function findPalette(name: string) {
+  return BUILT_IN_PALETTES.find((p) => p.name === name);
+}
+
+/** Name of the built-in palette these colours are, if any */
+export function matchPalette(colors: PaletteColors): string | null {
+  const json = JSON.stringify(colors);
+  const match = BUILT_IN_PALETTES.find(({ name: _name, ...p }) => JSON.stringify(p) === json);
+  return match?.name ?? null;
+}
+
+export function resolvePalette(colors: PaletteColors): ResolvedPalette {
+  const lights = {} as Record<LightKey, THREE.Color>;
+  for (const key of LIGHT_KEYS) lights[key] = new THREE.Color(colors.lights[key]);
+  return {
+    stops: colors.stops.map((s) => ({ ...s, color: new THREE.Color(s.color) })),
+    sheenColor: new THREE.Color(colors.sheenColor),
+    background: new THREE.Color(colors.background),
+    lights,
+  };
+}
+
+/** Deep copy of a look's live palette — the starting point of a blend */
+export function clonePalette(look: ResolvedPalette): ResolvedPalette {
+  const lights = {} as Record<LightKey, THREE.Color>;
+  for (const key of LIGHT_KEYS) lights[key] = look.lights[key].clone();
+  return {
+    stops: look.stops.map((s) => ({ ...s, color: s.color.clone() })),
+    sheenColor: look.sheenColor.clone(),
+    background: look.background.clone(),
+    lights,
+  };
+}
+
+const hex = (c: THREE.Color) => `#${c.getHexString()}`;
+
+/** A look's live palette as JSON */
+export function serializePalette(look: ResolvedPalette): PaletteColors {
+  const lights = {} as Record<LightKey, string>;
+  for (const key of LIGHT_KEYS) lights[key] = hex(look.lights[key]);
+  return {
+    stops: look.stops.map((s) => ({ ...s, color: hex(s.color) })),
+    sheenColor: hex(look.sheenColor),
+    background: hex(look.background),
+    lights,
+  };
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+/** Exact at both ends, so a finished blend matches its target */
+const lerp = (a: number, b: number, t: number) => a * (1 - t) + b * t;
+
+/**
+ * Writes the blend of two palettes at e (0..1) into the look, in place.
+ * Stops pair up by index; a stop only one side has fades its weight in or
+ * out at its own colour and position, so differing stop counts blend cleanly.
+ */
+export function blendPalette(
+  look: ResolvedPalette,
+  from: ResolvedPalette,
+  to: ResolvedPalette,
+  e: number
+) {
+  const count = e >= 1 ? to.stops.length : Math.max(from.stops.length, to.stops.length);
+  for (let i = 0; i < count; i++) {
+    const a = from.stops[i];
+    const b = to.stops[i];
+    const src = a ?? b;
+    const dst = b ?? a;
+    const out = (look.stops[i] ??= { color: new THREE.Color(), position: 0, width: 1, weight: 0 });
+    out.color.lerpColors(src.color, dst.color, e);
+    out.position = lerp(src.position, dst.position, e);
+    out.width = lerp(src.width, dst.width, e);
+    out.weight = lerp(a?.weight ?? 0, b?.weight ?? 0, e);
+  }
+  look.stops.length = count;
+
+  look.sheenColor.lerpColors(from.sheenColor, to.sheenColor, e);
+  look.background.lerpColors(from.background, to.background, e);
+  for (const key of LIGHT_KEYS) look.lights[key].lerpColors(from.lights[key], to.lights[key], e);
+}
+
+/**
+ * Blends the look's live palette to `colors` over durationMs. Call step()
+ * once per frame; it returns true when done. A zero duration applies at once.
+ */
+export function createPaletteTransition(
+  colors: PaletteColors,
+  look: Store<ResolvedPalette>,
+  startedAt: number,
+  durationMs = PALETTE_TRANSITION_MS
+) {
+  const from = clonePalette(look.state);
+  const to = resolvePalette(colors);
+  return {
+    step(now: number): boolean {
+      const t = durationMs > 0 ? Math.max(0, Math.min(1, (now - startedAt) / durationMs)) : 1;
+      blendPalette(look.state, from, to, smoothstep(t));
+      look.notify();
+      return t >= 1;
+    },
+  };
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+export const isHexColor = (v: unknown): v is string =>
+  typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v);
+
+function isStop(v: unknown): v is PaletteStop {
+  const s = v as PaletteStop | null;
+  return (
+    !!s &&
+    typeof s === 'object' &&
+    isHexColor(s.color) &&
+    isFiniteNumber(s.position) &&
+    isFiniteNumber(s.width) &&
+    s.width > 0 &&
+    isFiniteNumber(s.weight) &&
+    s.weight >= 0
+  );
+}
+
+/**
+ * Validates untrusted JSON as palette colours. Invalid fields fall back to
+ * `fallback` individually; a stop list is kept only if every stop is valid.
+ */
+export function parsePaletteColors(json: unknown, fallback: PaletteColors): PaletteColors {
+  const p = (json && typeof json === 'object' ? json : {}) as Partial<PaletteColors>;
+  const stops =
+    Array.isArray(p.stops) &&
+    p.stops.length > 0 &&
+    p.stops.length <= MAX_PALETTE_STOPS &&
+    p.stops.every(isStop)
+      ? p.stops.map((s) => ({ ...s }))
+      : fallback.stops.map((s) => ({ ...s }));
+  const lights = { ...fallback.lights };
+  for (const key of LIGHT_KEYS) {
+    const v = p.lights?.[key];
+    if (isHexColor(v)) lights[key] = v;
+  }
+  return {
+    stops,
+    sheenColor: isHexColor(p.sheenColor) ? p.sheenColor : fallback.sheenColor,
+    background: isHexColor(p.background) ? p.background : fallback.background,
+    lights,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Analysis frames from PCM pushed in as data (e.g. a network feed) rather
+ * than played through an AudioContext. Mirrors the spectrum worklet: a ring
+ * buffer, a Blackman-windowed FFT every hop, AnalyserNode-style smoothing and
+ * byte scale. Pitch and zero-crossing rate are left to the analyser core,
+ * which gets the time-domain window with each frame.
+ */
+import { blackmanWindow, createFft } from './fft';
+import { MAX_FFT_SIZE } from './spectrumFrame';
+import { smoothingPerHop, WORKLET_HOP_SIZE } from './spectrumWorklet';
+import type { AnalysisFrame } from './voiceAnalyser';
+
+/** Time-domain window handed to the core for pitch — as the AnalyserNode path uses */
+const PITCH_WINDOW = 2048;
+const RING_SIZE = Math.max(MAX_FFT_SIZE, PITCH_WINDOW);
+
+export interface PcmFrameConfig {
+  fftSize: number;
+  /** AnalyserNode-style smoothing (per 60 Hz read); converted per hop */
+  smoothing: number;
+  minDecibels: number;
+  maxDecibels: number;
+}
+
+/**
+ * push() mono samples at any rate; onFrame fires once per hop with a frame
+ * that is reused between calls.
+ */
+export function createPcmFrameSource(
+  getConfig: () => PcmFrameConfig,
+  onFrame: (frame: AnalysisFrame) => void,
+  hopSize = WORKLET_HOP_SIZE
+) {
+  const ring = new Float32Array(RING_SIZE);
+  const timeDomain = new Float32Array(PITCH_WINDOW);
+  let writeIndex = 0;
+  let sinceHop = 0;
+  let samplesSeen = 0;
+
+  let fftSize = 0;
+  let fft: (re: Float32Array, im: Float32Array) => void = () => {};
+  let blackman = new Float32Array(0);
+  let re = new Float32Array(0);
+  let im = new Float32Array(0);
+  let smoothed = new Float32Array(0);
+  let bytes = new Uint8Array(0);
+
+  const resize = (size: number) => {
+    fftSize = size;
+    fft = createFft(size);
+    blackman = blackmanWindow(size);
+    re = new Float32Array(size);
+    im = new Float32Array(size);
+    smoothed = new Float32Array(size / 2);
+    bytes = new Uint8Array(size / 2);
+  };
+
+  const analyseHop = (sampleRate: number) => {
+    const config = getConfig();
+    if (config.fftSize !== fftSize) resize(config.fftSize);
+    const { minDecibels, maxDecibels } = config;
+    const smoothing = smoothingPerHop(config.smoothing, sampleRate, hopSize);
+
+    const start = (writeIndex - fftSize + RING_SIZE) % RING_SIZE;
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = ring[(start + i) % RING_SIZE] * blackman[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const range = maxDecibels - minDecibels;
+    for (let k = 0; k < fftSize / 2; k++) {
+      const mag = Math.hypot(re[k], im[k]) / fftSize;
+      const s = smoothing * smoothed[k] + (1 - smoothing) * mag;
+      smoothed[k] = s;
+      const db = s > 0 ? 20 * Math.log10(s) : -Infinity;
+      bytes[k] = Math.max(0, Math.min(255, Math.floor((255 / range) * (db - minDecibels))));
+    }
+
+    const pitchStart = (writeIndex - PITCH_WINDOW + RING_SIZE) % RING_SIZE;
+    for (let i = 0; i < PITCH_WINDOW; i++) timeDomain[i] = ring[(pitchStart + i) % RING_SIZE];
+
+    onFrame({
+      frequency: bytes,
+      timeDomain,
+      fftSize,
+      sampleRate,
+      minDecibels,
+      maxDecibels,
+      time: (samplesSeen / sampleRate) * 1000,
+    });
+  };
+
+  return {
+    push(samples: Float32Array, sampleRate: number) {
+      for (let i = 0; i < samples.length; i++) {
+        ring[writeIndex] = samples[i];
+        writeIndex = (writeIndex + 1) % RING_SIZE;
+        samplesSeen++;
+        if (++sinceHop >= hopSize) {
+          sinceHop = 0;
+          analyseHop(sampleRate);
+        }
+      }
+    },
+    reset() {
+      ring.fill(0);
+      smoothed.fill(0);
+      writeIndex = 0;
+      sinceHop = 0;
+      samplesSeen = 0;
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Time-domain fundamental frequency estimation (YIN).
+ *
+ * de Cheveigné & Kawahara, "YIN, a fundamental frequency estimator for
+ * speech and music" (2002): squared difference function, cumulative mean
+ * normalisation, absolute threshold, parabolic interpolation.
+ */
+
+export interface PitchEstimate {
+  /** Detected fundamental in Hz, 0 when unvoiced */
+  hz: number;
+  /** 1 - aperiodicity at the chosen lag, 0..1 */
+  confidence: number;
+}
+
+export interface PitchDetectorOptions {
+  minHz?: number;
+  maxHz?: number;
+  /** YIN absolute threshold — lower is stricter */
+  threshold?: number;
+}
+
+/**
+ * Creates a detector with its own scratch buffer so per-frame calls don't
+ * allocate. The returned estimate object is reused between calls.
+ */
+export function createPitchDetector({
+  minHz = 70,
+  maxHz = 500,
+  threshold = 0.15,
+}: PitchDetectorOptions = {}) {
+  let diff = new Float32Array(0);
+  const estimate: PitchEstimate = { hz: 0, confidence: 0 };
+
+  return function detect(samples: Float32Array, sampleRate: number): PitchEstimate {
+    const minLag = Math.max(2, Math.floor(sampleRate / maxHz));
+    const maxLag = Math.min(Math.floor(sampleRate / minHz), Math.floor(samples.length / 2));
+
+    estimate.hz = 0;
+    estimate.confidence = 0;
+    if (maxLag <= minLag) return estimate;
+
+    if (diff.length < maxLag + 1) diff = new Float32Array(maxLag + 1);
+    const window = samples.length - maxLag;
+
+    // 1. Difference function
+    for (let lag = 1; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i < window; i++) {
+        const d = samples[i] - samples[i + lag];
+        sum += d * d;
+      }
+      diff[lag] = sum;
+    }
+
+    // 2. Cumulative mean normalised difference
+    diff[0] = 1;
+    let running = 0;
+    for (let lag = 1; lag <= maxLag; lag++) {
+      running += diff[lag];
+      diff[lag] = running > 0 ? (diff[lag] * lag) / running : 1;
+    }
+
+    // 3. First dip below threshold, walked down to its local minimum
+    let best = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (diff[lag] < threshold) {
+        while (lag + 1 <= maxLag && diff[lag + 1] < diff[lag]) lag++;
+        best = lag;
+        break;
+      }
+    }
+    if (best < 0) return estimate;
+
+    // 4. Parabolic interpolation around the minimum
+    let refined = best;
+    if (best > 1 && best < maxLag) {
+      const a = diff[best - 1];
+      const b = diff[best];
+      const c = diff[best + 1];
+      const denom = a + c - 2 * b;
+      if (denom !== 0) refined = best + (a - c) / (2 * denom);
+    }
+
+    estimate.hz = sampleRate / refined;
+    estimate.confidence = Math.max(0, Math.min(1, 1 - diff[best]));
+    return estimate;
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS, createPresetCrossfade } from './presets';
+import { createDefaultDebugSettings } from './debugStore';
+import { createDefaultLook } from './blobLook';
+import { createStore } from './store';
+
+describe('createPresetCrossfade', () => {
+  it('keeps calibrated gates on bands the preset shares by name', () => {
+    const initial = createDefaultDebugSettings();
+    initial.bands = initial.bands.map((b) => (b.name === 'low' ? { ...b, gate: 0.2 } : b));
+    const settings = createStore(initial);
+    const calm = BUILT_IN_PRESETS[1];
+    const preset = {
+      ...calm,
+      settings: {
+        ...calm.settings,
+        bands: [
+          { name: 'low', minHz: 40, maxHz: 300, gain: 1, gate: 0.9 },
+          { name: 'air', minHz: 8000, maxHz: 16000, gain: 1, gate: 0.9 },
+        ],
+      },
+    };
+
+    createPresetCrossfade(preset, settings, createStore(createDefaultLook()), 0).step(Infinity);
+
+    expect(settings.state.bands).toEqual([
+      { name: 'low', minHz: 40, maxHz: 300, gain: 1, gate: 0.2 },
+      { name: 'air', minHz: 8000, maxHz: 16000, gain: 1 },
+    ]);
+  });
+});
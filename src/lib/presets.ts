@@ -0,0 +1,346 @@
+/**
+ * Named presets — a debugStore snapshot (including the modulation routes)
+ * plus the blob's look (base uniforms, idle motion, rest scale, palette) under
+ * one name. Presets crossfade into the live stores and round-trip through
+ * JSON files.
+ */
+import { createDefaultDebugSettings } from './debugStore';
+import type { DebugSettings } from './debugStore';
+import { createDefaultLook, MOTION_KEYS, STATIC_UNIFORM_KEYS } from './blobLook';
+import type { BlobLook, MotionParams, StaticUniformKey } from './blobLook';
+import { createDefaultModRoutes } from './modulation';
+import type { ModRoute, ModTarget } from './modulation';
+import {
+  blendPalette,
+  BUILT_IN_PALETTES,
+  clonePalette,
+  parsePaletteColors,
+  resolvePalette,
+  serializePalette,
+} from './palette';
+import type { PaletteColors } from './palette';
+import { pickValidSettings } from './settingsPersistence';
+import type { Store } from './store';
+
+export const PRESET_FORMAT = 'voice-blob-preset';
+/** v2: look.active/scaleActive replaced by settings.modRoutes */
+export const PRESET_VERSION = 2;
+export const PRESETS_STORAGE_KEY = 'voice-blob:presets';
+
+/** Default crossfade between presets */
+export const PRESET_CROSSFADE_MS = 1200;
+
+/** BlobLook in JSON form — colours as #rrggbb */
+export interface PresetLook extends PaletteColors {
+  uniforms: Record<StaticUniformKey, number>;
+  idle: MotionParams;
+  scaleIdle: number;
+}
+
+export interface Preset {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  name: string;
+  settings: Partial<DebugSettings>;
+  look: PresetLook;
+}
+
+/**
+ * The default routes with their peak offsets replaced per target — how the
+ * built-ins and migrated v1 presets (which stored peak values) express range.
+ */
+function routesWithRanges(ranges: Partial<Record<ModTarget, number>>): ModRoute[] {
+  return createDefaultModRoutes().map((route) => {
+    const max = ranges[route.target];
+    return max === undefined ? route : { ...route, max };
+  });
+}
+
+function serializeLook(look: Readonly<BlobLook>): PresetLook {
+  return {
+    uniforms: { ...look.uniforms },
+    idle: { ...look.idle },
+    scaleIdle: look.scaleIdle,
+    ...serializePalette(look),
+  };
+}
+
+/** A built-in palette's colours, for presets that pair with it */
+function paletteColors(name: string): PaletteColors {
+  const { name: _name, ...colors } = BUILT_IN_PALETTES.find((p) => p.name === name)!;
+  return colors;
+}
+
+/**
+ * Captures the live stores as a preset. Mute is session state and calibrated
+ * gates belong to the room they were measured in, so neither is included.
+ */
+export function capturePreset(
+  name: string,
+  settings: Readonly<DebugSettings>,
+  look: Readonly<BlobLook>
+): Preset {
+  const { isMuted: _isMuted, ...rest } = settings;
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name,
+    settings: {
+      ...rest,
+      bands: settings.bands.map(({ gate: _gate, ...band }) => band),
+      modRoutes: settings.modRoutes.map((route) => ({ ...route })),
+    },
+    look: serializeLook(look),
+  };
+}
+
+/**
+ * A preset's bands with the live bands' calibrated gates carried over by
+ * name — gates belong to the room, so a preset never sets or clears them.
+ */
+function withRoomGates(bands: DebugSettings['bands'], current: DebugSettings['bands']) {
+  return bands.map(({ gate: _gate, ...band }) => {
+    const gate = current.find((b) => b.name === band.name)?.gate;
+    return gate === undefined ? band : { ...band, gate };
+  });
+}
+
+function builtIn(
+  name: string,
+  settings: Partial<DebugSettings>,
+  look: Partial<Omit<PresetLook, 'uniforms'>> & { uniforms?: Partial<PresetLook['uniforms']> }
+): Preset {
+  const base = capturePreset(name, createDefaultDebugSettings(), createDefaultLook());
+  return {
+    ...base,
+    settings: { ...base.settings, ...settings },
+    look: { ...base.look, ...look, uniforms: { ...base.look.uniforms, ...look.uniforms } },
+  };
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  builtIn('Default', {}, {}),
+  builtIn(
+    'Calm',
+    {
+      sensitivity: 2.2,
+      animationSpeed: 0.7,
+      onsetPulse: 0.4,
+      modRoutes: routesWithRanges({
+        distort: 0.06,
+        speed: 0.04,
+        surfaceDistort: 0.15,
+        surfaceSpeed: 0.04,
+        scale: 0.22,
+      }),
+    },
+    {}
+  ),
+  builtIn(
+    'Lively',
+    {
+      sensitivity: 3.8,
+      animationSpeed: 1.3,
+      onsetPulse: 1.8,
+      modRoutes: routesWithRanges({
+        distort: 0.25,
+        speed: 0.25,
+        surfaceDistort: 0.7,
+        surfaceSpeed: 0.2,
+        scale: 0.41,
+      }),
+    },
+    { uniforms: { numberOfWaves: 3.5 } }
+  ),
+  builtIn(
+    'Lagoon',
+    {},
+    paletteColors('Lagoon')
+  ),
+  builtIn(
+    'Dusk',
+    { animationSpeed: 0.85 },
+    { ...paletteColors('Dusk'), uniforms: { saturation: 1.6 } }
+  ),
+];
+
+export function isBuiltInPreset(name: string) {
+  return BUILT_IN_PRESETS.some((p) => p.name === name);
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** Looks a missing or invalid field up in the default look instead */
+function parseLook(json: unknown): PresetLook {
+  const l = (json && typeof json === 'object' ? json : {}) as Partial<PresetLook>;
+  const defaults = serializeLook(createDefaultLook());
+  const look = { ...defaults, ...parsePaletteColors(l, defaults) };
+
+  for (const key of STATIC_UNIFORM_KEYS) {
+    const v = l.uniforms?.[key];
+    if (isFiniteNumber(v)) look.uniforms[key] = v;
+  }
+  for (const key of MOTION_KEYS) {
+    if (isFiniteNumber(l.idle?.[key])) look.idle[key] = l.idle[key];
+  }
+  if (isFiniteNumber(l.scaleIdle) && l.scaleIdle > 0) look.scaleIdle = l.scaleIdle;
+  return look;
+}
+
+/** v1 looks stored peak values; their distance from idle becomes each route's range */
+function migrateV1Routes(json: unknown): ModRoute[] {
+  const l = (json && typeof json === 'object' ? json : {}) as {
+    active?: Partial<MotionParams>;
+    scaleActive?: unknown;
+  };
+  const look = parseLook(json);
+  const ranges: Partial<Record<ModTarget, number>> = {};
+  for (const key of MOTION_KEYS) {
+    const active = l.active?.[key];
+    if (isFiniteNumber(active)) ranges[key] = active - look.idle[key];
+  }
+  if (isFiniteNumber(l.scaleActive)) ranges.scale = l.scaleActive - look.scaleIdle;
+  return routesWithRanges(ranges);
+}
+
+/**
+ * Validates untrusted JSON (an imported file or stored record) as a preset.
+ * Throws with a user-presentable message when it isn't one; individual bad
+ * fields are dropped rather than failing the whole preset.
+ */
+export function parsePreset(json: unknown): Preset {
+  const p = json as Partial<Preset> | null;
+  if (!p || typeof p !== 'object' || p.format !== PRESET_FORMAT) {
+    throw new Error('Not a voice-blob preset file.');
+  }
+  if (typeof p.version !== 'number' || p.version > PRESET_VERSION) {
+    throw new Error(`Unsupported preset version ${p.version}.`);
+  }
+  if (typeof p.name !== 'string' || !p.name.trim()) {
+    throw new Error('Preset has no name.');
+  }
+  const settings = pickValidSettings((p.settings ?? {}) as Record<string, unknown>);
+  delete settings.isMuted;
+  if (p.version < 2 && !settings.modRoutes) settings.modRoutes = migrateV1Routes(p.look);
+  return {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name: p.name.trim(),
+    settings,
+    look: parseLook(p.look),
+  };
+}
+
+export interface StoredPresets {
+  presets: Preset[];
+  /** Name of the last applied preset */
+  active: string | null;
+}
+
+export function loadStoredPresets(): StoredPresets {
+  try {
+    const record = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) ?? 'null');
+    if (!record || typeof record !== 'object') return { presets: [], active: null };
+    const presets: Preset[] = [];
+    for (const json of Array.isArray(record.presets) ? record.presets : []) {
+      try {
+        presets.push(parsePreset(json));
+      } catch {
+        // Skip presets that no longer validate
+      }
+    }
+    return { presets, active: typeof record.active === 'string' ? record.active : null };
+  } catch {
+    return { presets: [], active: null };
+  }
+}
+
+export function saveStoredPresets(stored: StoredPresets) {
+  try {
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify({ version: PRESET_VERSION, ...stored }));
+  } catch {
+    // Persistence is best-effort
+  }
+}
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Crossfades the live stores from their current values to the preset.
+ * Numbers (settings, uniforms, route ranges) and colours blend; discrete
+ * settings (enums, toggles, FFT size, band layout, route wiring) switch
+ * immediately. Call step() once per frame; it returns true when the fade is
+ * complete.
+ * `settings` may be null to apply only the look (e.g. restoring on startup).
+ */
+export function createPresetCrossfade(
+  preset: Preset,
+  settings: Store<DebugSettings> | null,
+  look: Store<BlobLook>,
+  startedAt: number,
+  durationMs = PRESET_CROSSFADE_MS
+) {
+  const fromSettings: Record<string, number> = {};
+  const toSettings: Record<string, number> = {};
+  // Routes present on both sides (same id and target) sweep their range instead of jumping
+  let toRoutes: ModRoute[] | null = null;
+  const fromRoutes = new Map<string, ModRoute>();
+  if (settings) {
+    const discrete: Partial<DebugSettings> = {};
+    for (const [key, value] of Object.entries(preset.settings)) {
+      if (typeof value === 'number' && key !== 'fftSize') {
+        fromSettings[key] = settings.state[key as keyof DebugSettings] as number;
+        toSettings[key] = value;
+      } else if (key === 'modRoutes') {
+        toRoutes = value as ModRoute[];
+        for (const to of toRoutes) {
+          const from = settings.state.modRoutes.find((r) => r.id === to.id && r.target === to.target);
+          if (from) fromRoutes.set(to.id, from);
+        }
+      } else {
+        Object.assign(discrete, {
+          [key]: key === 'bands' ? withRoomGates(value as DebugSettings['bands'], settings.state.bands) : value,
+        });
+      }
+    }
+    settings.set(discrete);
+  }
+
+  const from = serializeLook(look.state);
+  const fromPalette = clonePalette(look.state);
+  const to = preset.look;
+  const toPalette = resolvePalette(to);
+
+  return {
+    step(now: number): boolean {
+      const t = durationMs > 0 ? Math.max(0, Math.min(1, (now - startedAt) / durationMs)) : 1;
+      const e = smoothstep(t);
+
+      if (settings) {
+        const patch: Record<string, unknown> = {};
+        for (const key in toSettings) patch[key] = lerp(fromSettings[key], toSettings[key], e);
+        // Routes are replaced wholesale, like every edit, so observers see the change
+        if (toRoutes) {
+          patch.modRoutes = toRoutes.map((to) => {
+            const from = fromRoutes.get(to.id);
+            return from
+              ? { ...to, min: lerp(from.min, to.min, e), max: lerp(from.max, to.max, e) }
+              : { ...to };
+          });
+        }
+        settings.set(patch as Partial<DebugSettings>);
+      }
+      const { uniforms, idle } = look.state;
+      for (const key of STATIC_UNIFORM_KEYS) {
+        uniforms[key] = lerp(from.uniforms[key], to.uniforms[key], e);
+      }
+      for (const key of MOTION_KEYS) {
+        idle[key] = lerp(from.idle[key], to.idle[key], e);
+      }
+      blendPalette(look.state, fromPalette, toPalette, e);
+      look.set({ scaleIdle: lerp(from.scaleIdle, to.scaleIdle, e) });
+      return t >= 1;
+    },
+  };
+}
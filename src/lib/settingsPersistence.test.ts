@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadSettings, pickValidSettings, saveSettings, SETTINGS_STORAGE_KEY } from './settingsPersistence';
+import { createDefaultModRoutes } from './modulation';
+import { createDefaultDebugSettings } from './debugStore';
+import { createStore } from './store';
+
+const band = (name: string, minHz: number, maxHz: number) => ({ name, minHz, maxHz, gain: 1 });
+
+describe('pickValidSettings', () => {
+  it('drops only the invalid bands', () => {
+    const { bands } = pickValidSettings({
+      bands: [band('low', 20, 250), band('flipped', 2000, 250), band('mid', 250, 2000), band('low', 0, 10)],
+    });
+
+    expect(bands?.map((b) => b.name)).toEqual(['low', 'mid']);
+  });
+
+  it('falls back to the default bands when none are valid', () => {
+    expect(pickValidSettings({ bands: [band('flipped', 2000, 250)] })).not.toHaveProperty('bands');
+    expect(pickValidSettings({ bands: [] })).not.toHaveProperty('bands');
+  });
+
+  it('drops only the invalid routes', () => {
+    const [route] = createDefaultModRoutes();
+    const { modRoutes } = pickValidSettings({
+      modRoutes: [route, { ...route, id: 'slow', attack: 31 }, { ...route, id: 'far', max: -101 }, 'route'],
+    });
+
+    expect(modRoutes).toEqual([route]);
+  });
+
+  it('rejects list fields that are not lists', () => {
+    expect(pickValidSettings({ bands: 'low', modRoutes: {} })).toEqual({});
+  });
+});
+
+describe('saveSettings / loadSettings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubStorage() {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    });
+    return items;
+  }
+
+  it('leaves the mute state out of what it saves', () => {
+    const items = stubStorage();
+    saveSettings({ ...createDefaultDebugSettings(), isMuted: true, sensitivity: 2 });
+
+    const saved = JSON.parse(items.get(SETTINGS_STORAGE_KEY)!);
+    expect(saved.settings).not.toHaveProperty('isMuted');
+    expect(saved.settings.sensitivity).toBe(2);
+  });
+
+  it('ignores a mute state saved by an older build', () => {
+    const items = stubStorage();
+    items.set(
+      SETTINGS_STORAGE_KEY,
+      JSON.stringify({ version: 1, settings: { isMuted: true, sensitivity: 2 }, preferredMicId: null })
+    );
+    const store = createStore(createDefaultDebugSettings());
+
+    expect(loadSettings(store)).toBe(true);
+    expect(store.state.isMuted).toBe(false);
+    expect(store.state.sensitivity).toBe(2);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * localStorage persistence for debugStore and the preferred microphone.
+ *
+ * Records are versioned. Older records are upgraded through MIGRATIONS, then
+ * every field is checked against SETTINGS_SCHEMA — invalid or unknown fields
+ * fall back to their defaults individually rather than discarding the record.
+ * List fields go further: an invalid band or route is dropped on its own.
+ */
+import { FFT_SIZES, MAX_BAND_HZ } from './frequencyBands';
+import type { FrequencyBand } from './frequencyBands';
+import { MOD_OFFSET_LIMIT, MOD_SOURCES, MOD_TARGETS, MOD_TIME_LIMIT_S } from './modulation';
+import type { ModRoute } from './modulation';
+import { createDefaultDebugSettings } from './debugStore';
+import type { DebugSettings } from './debugStore';
+import type { Store } from './store';
+
+export const SETTINGS_STORAGE_KEY = 'voice-blob:settings';
+export const SETTINGS_VERSION = 1;
+
+/** Autosave waits this long after a change so slider drags write once */
+const AUTOSAVE_INTERVAL_MS = 1000;
+
+interface PersistedRecord {
+  version: number;
+  settings: Record<string, unknown>;
+  preferredMicId: string | null;
+}
+
+type Validator = (value: unknown) => boolean;
+
+const isNumberIn = (min: number, max: number): Validator => (v) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+
+const isBoolean: Validator = (v) => typeof v === 'boolean';
+
+const isOneOf = (...values: unknown[]): Validator => (v) => values.includes(v);
+
+function isBand(v: unknown): v is FrequencyBand {
+  const b = v as FrequencyBand | null;
+  return (
+    !!b &&
+    typeof b === 'object' &&
+    typeof b.name === 'string' &&
+    b.name.trim() !== '' &&
+    isNumberIn(0, MAX_BAND_HZ)(b.minHz) &&
+    isNumberIn(0, MAX_BAND_HZ)(b.maxHz) &&
+    b.maxHz > b.minHz &&
+    isNumberIn(0, 10)(b.gain) &&
+    (b.gate === undefined || isNumberIn(0, 1)(b.gate))
+  );
+}
+
+function isModRoute(v: unknown): v is ModRoute {
+  const r = v as ModRoute | null;
+  return (
+    !!r &&
+    typeof r === 'object' &&
+    typeof r.id === 'string' &&
+    r.id !== '' &&
+    isOneOf(...MOD_SOURCES)(r.source) &&
+    (r.band === undefined || typeof r.band === 'string') &&
+    isOneOf(...MOD_TARGETS)(r.target) &&
+    isNumberIn(-MOD_OFFSET_LIMIT, MOD_OFFSET_LIMIT)(r.min) &&
+    isNumberIn(-MOD_OFFSET_LIMIT, MOD_OFFSET_LIMIT)(r.max) &&
+    isOneOf('linear', 'exp', 'log')(r.curve) &&
+    isNumberIn(0, MOD_TIME_LIMIT_S)(r.attack) &&
+    isNumberIn(0, MOD_TIME_LIMIT_S)(r.release)
+  );
+}
+
+/**
+ * Reduces a list to its valid items, keeping the first of any that share a
+ * key; anything but an array comes back as null.
+ */
+function validItems<T>(isItem: (v: unknown) => v is T, keyOf: (item: T) => string) {
+  return (v: unknown): T[] | null => {
+    if (!Array.isArray(v)) return null;
+    const seen = new Set<string>();
+    return v.filter((item): item is T => {
+      if (!isItem(item) || seen.has(keyOf(item))) return false;
+      seen.add(keyOf(item));
+      return true;
+    });
+  };
+}
+
+/** Applied before SETTINGS_SCHEMA, so one bad entry doesn't reset the whole list */
+const LIST_FILTERS: Partial<Record<keyof DebugSettings, (value: unknown) => unknown>> = {
+  bands: validItems(isBand, (b) => b.name),
+  modRoutes: validItems(isModRoute, (r) => r.id),
+};
+
+const TIMBRE_SOURCES = ['none', 'centroid', 'rolloff', 'flatness', 'zcr'];
+
+/**
+ * One validator per debugStore field. Keyed by DebugSettings so adding a
+ * store field without deciding how to validate it is a type error.
+ */
+const SETTINGS_SCHEMA: Record<keyof DebugSettings, Validator> = {
+  sensitivity: isNumberIn(0.2, 5),
+  noiseGate: isNumberIn(0, 0.3),
+  // At least one band must survive filtering; the panel never lets the last one go
+  bands: (v) => Array.isArray(v) && v.length > 0,
+  isMuted: isBoolean,
+  vadGate: isBoolean,
+  adaptiveGate: isBoolean,
+  animationSpeed: isNumberIn(0.1, 5),
+  fftSize: isOneOf(...FFT_SIZES),
+  pitchTarget: isOneOf('none', 'hue', 'waves'),
+  onsetPulse: isNumberIn(0, 3),
+  roughnessSource: isOneOf(...TIMBRE_SOURCES),
+  iridescenceSource: isOneOf(...TIMBRE_SOURCES),
+  sheenSource: isOneOf(...TIMBRE_SOURCES),
+  modRoutes: Array.isArray,
+};
+
+/**
+ * MIGRATIONS[n] upgrades a version-n record to version n + 1. When a change
+ * to debugStore renames, rescales or restructures a field, bump
+ * SETTINGS_VERSION and add the step here; plain additions need no migration
+ * since missing fields take their defaults.
+ */
+const MIGRATIONS: Record<number, (record: PersistedRecord) => PersistedRecord> = {};
+
+function readRecord(): PersistedRecord | null {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  } catch {
+    // Storage disabled (privacy mode, sandboxed iframe)
+    return null;
+  }
+  if (!raw) return null;
+
+  let record: PersistedRecord;
+  try {
+    record = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!record || typeof record !== 'object' || typeof record.version !== 'number') return null;
+  // Written by a newer build — don't guess at its meaning
+  if (record.version > SETTINGS_VERSION) return null;
+
+  while (record.version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[record.version];
+    if (!migrate) return null;
+    record = migrate(record);
+  }
+  if (!record.settings || typeof record.settings !== 'object') record.settings = {};
+  if (typeof record.preferredMicId !== 'string') record.preferredMicId = null;
+  return record;
+}
+
+function writeRecord(record: PersistedRecord) {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Quota exceeded or storage disabled — persistence is best-effort
+  }
+}
+
+/** The schema-valid subset of a stored (or imported) settings object */
+export function pickValidSettings(stored: Record<string, unknown>): Partial<DebugSettings> {
+  const valid: Record<string, unknown> = {};
+  for (const key of Object.keys(SETTINGS_SCHEMA) as (keyof DebugSettings)[]) {
+    if (!(key in stored)) continue;
+    const value = LIST_FILTERS[key] ? LIST_FILTERS[key](stored[key]) : stored[key];
+    if (SETTINGS_SCHEMA[key](value)) valid[key] = value;
+  }
+  return valid as Partial<DebugSettings>;
+}
+
+/** Applies stored settings onto a store (usually settingsStore); returns whether any were found */
+export function loadSettings(store: Store<DebugSettings>): boolean {
+  const record = readRecord();
+  if (!record) return false;
+  // Records written before mute was left out may still carry it
+  const { isMuted: _isMuted, ...settings } = pickValidSettings(record.settings);
+  store.set(settings);
+  return true;
+}
+
+/** Mute is session state — a page that opens muted would look broken — so it isn't saved */
+export function saveSettings(settings: Readonly<DebugSettings>) {
+  const record = readRecord();
+  const { isMuted: _isMuted, ...saved } = settings;
+  writeRecord({
+    version: SETTINGS_VERSION,
+    settings: saved,
+    preferredMicId: record?.preferredMicId ?? null,
+  });
+}
+
+export function loadPreferredMic(): string | null {
+  return readRecord()?.preferredMicId ?? null;
+}
+
+export function savePreferredMic(deviceId: string | null) {
+  const record = readRecord();
+  writeRecord({
+    version: SETTINGS_VERSION,
+    settings: record?.settings ?? {},
+    preferredMicId: deviceId,
+  });
+}
+
+/** Restores the factory defaults into a store and persists them (the mic choice is kept) */
+export function resetSettings(store: Store<DebugSettings>) {
+  store.set({ ...createDefaultDebugSettings(), isMuted: store.state.isMuted });
+  saveSettings(store.state);
+}
+
+/**
+ * Saves settings shortly after they change; the page-hide flush catches the
+ * last edit. `isPaused` suppresses saving (e.g. while a timeline replay drives
+ * the store). Returns a stop function.
+ */
+export function startSettingsAutosave(
+  store: Store<DebugSettings>,
+  isPaused: () => boolean = () => false
+) {
+  let dirty = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!dirty || isPaused()) return;
+    dirty = false;
+    saveSettings(store.state);
+  };
+
+  const unsubscribe = store.subscribe(() => {
+    dirty = true;
+    timer ??= setTimeout(flush, AUTOSAVE_INTERVAL_MS);
+  });
+  window.addEventListener('pagehide', flush);
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', flush);
+    flush();
+  };
+}
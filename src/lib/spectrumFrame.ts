@@ -0,0 +1,60 @@
+/**
+ * One analysis frame, as consumed by the voice analyser's feature stage.
+ * Produced either by AnalyserNode reads on the main thread or by the
+ * spectrum AudioWorklet at a fixed hop size.
+ */
+export interface SpectrumFrame {
+  /** Byte magnitudes (fftSize / 2 bins), dB-scaled like getByteFrequencyData */
+  frequency: Uint8Array;
+  fftSize: number;
+  sampleRate: number;
+  minDecibels: number;
+  maxDecibels: number;
+  /** Raw (unsmoothed) pitch estimate for this frame, 0 Hz when unvoiced */
+  pitchHz: number;
+  pitchConfidence: number;
+  /** Sign changes per sample over the analysis window, 0..1 */
+  zeroCrossingRate: number;
+  /** Frame timestamp in ms — audio clock for worklet frames */
+  time: number;
+}
+
+// =============================================
+// WORKLET PROTOCOL
+// =============================================
+
+export const SPECTRUM_PROCESSOR_NAME = 'voice-spectrum';
+
+export const MAX_FFT_SIZE = 8192;
+
+export interface SpectrumWorkletConfig {
+  fftSize: number;
+  /** Applied per hop, pre-scaled so it matches AnalyserNode at 60 reads/s */
+  smoothingTimeConstant: number;
+  minDecibels: number;
+  maxDecibels: number;
+}
+
+export interface SpectrumProcessorOptions {
+  config: SpectrumWorkletConfig;
+  hopSize: number;
+  /** Present when the page is cross-origin isolated */
+  shared: SharedArrayBuffer | null;
+}
+
+export type SpectrumProcessorMessage =
+  | { type: 'frame'; seq: number }
+  | { type: 'frame'; seq: number; frame: Omit<SpectrumFrame, 'minDecibels' | 'maxDecibels'> };
+
+export type SpectrumProcessorCommand = { type: 'config'; config: SpectrumWorkletConfig };
+
+/**
+ * Shared buffer layout (seqlock):
+ *   [0]        Int32   sequence — odd while the worklet is writing
+ *   [8..56)    Float64 time, fftSize, sampleRate, pitchHz, pitchConfidence, zeroCrossingRate
+ *   [56..)     Uint8   spectrum, MAX_FFT_SIZE / 2 bins
+ */
+export const SHARED_FIELDS_OFFSET = 8;
+export const SHARED_FIELD_COUNT = 6;
+export const SHARED_SPECTRUM_OFFSET = SHARED_FIELDS_OFFSET + SHARED_FIELD_COUNT * 8;
+export const SHARED_BYTE_LENGTH = SHARED_SPECTRUM_OFFSET + MAX_FFT_SIZE / 2;
@@ -0,0 +1,139 @@
+import processorUrl from '../worklets/spectrumProcessor.ts?worker&url';
+import {
+  SHARED_BYTE_LENGTH,
+  SHARED_FIELDS_OFFSET,
+  SHARED_FIELD_COUNT,
+  SHARED_SPECTRUM_OFFSET,
+  SPECTRUM_PROCESSOR_NAME,
+} from './spectrumFrame';
+import type {
+  SpectrumFrame,
+  SpectrumProcessorCommand,
+  SpectrumProcessorMessage,
+  SpectrumProcessorOptions,
+  SpectrumWorkletConfig,
+} from './spectrumFrame';
+
+/** Samples between analysis frames — ~94 frames/s at 48 kHz */
+export const WORKLET_HOP_SIZE = 512;
+
+/** Contexts that already have the processor module loaded */
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export interface SpectrumWorklet {
+  /** Connect sources into this node */
+  readonly node: AudioWorkletNode;
+  configure(config: SpectrumWorkletConfig): void;
+  dispose(): void;
+}
+
+export function isSpectrumWorkletSupported(ctx: BaseAudioContext) {
+  return typeof AudioWorkletNode !== 'undefined' && !!ctx.audioWorklet;
+}
+
+/**
+ * Converts an AnalyserNode smoothingTimeConstant (applied once per
+ * getByteFrequencyData call, i.e. per display frame) into the per-hop value
+ * that gives the same time constant at the worklet's hop rate.
+ */
+export function smoothingPerHop(smoothing: number, sampleRate: number, hopSize = WORKLET_HOP_SIZE) {
+  return Math.pow(smoothing, (hopSize / sampleRate) * 60);
+}
+
+/**
+ * Loads the spectrum processor into the context and wires its frames to
+ * onFrame. Frames are delivered from the node's message port, so analysis
+ * keeps running at audio rate even when requestAnimationFrame is throttled.
+ */
+export async function createSpectrumWorklet(
+  ctx: BaseAudioContext,
+  config: SpectrumWorkletConfig,
+  onFrame: (frame: SpectrumFrame) => void
+): Promise<SpectrumWorklet> {
+  if (!loadedContexts.has(ctx)) {
+    await ctx.audioWorklet.addModule(processorUrl);
+    loadedContexts.add(ctx);
+  }
+
+  // Zero-copy handoff needs cross-origin isolation; otherwise frames are transferred
+  const shared =
+    typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated
+      ? new SharedArrayBuffer(SHARED_BYTE_LENGTH)
+      : null;
+
+  const processorOptions: SpectrumProcessorOptions = {
+    config,
+    hopSize: WORKLET_HOP_SIZE,
+    shared,
+  };
+
+  // One silent output so the node is pulled by the graph in every browser
+  const node = new AudioWorkletNode(ctx, SPECTRUM_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions,
+  });
+  node.connect(ctx.destination);
+
+  let current = config;
+  let lastSeq = 0;
+  const frame: SpectrumFrame = {
+    frequency: new Uint8Array(config.fftSize / 2),
+    fftSize: config.fftSize,
+    sampleRate: ctx.sampleRate,
+    minDecibels: config.minDecibels,
+    maxDecibels: config.maxDecibels,
+    pitchHz: 0,
+    pitchConfidence: 0,
+    zeroCrossingRate: 0,
+    time: 0,
+  };
+
+  const seq = shared ? new Int32Array(shared, 0, 1) : null;
+  const fields = shared ? new Float64Array(shared, SHARED_FIELDS_OFFSET, SHARED_FIELD_COUNT) : null;
+  const spectrum = shared ? new Uint8Array(shared, SHARED_SPECTRUM_OFFSET) : null;
+
+  node.port.onmessage = (e: MessageEvent<SpectrumProcessorMessage>) => {
+    const msg = e.data;
+    // Only ever process the newest frame; stale notifications are dropped
+    if (msg.seq <= lastSeq) return;
+
+    if ('frame' in msg) {
+      Object.assign(frame, msg.frame);
+    } else if (seq && fields && spectrum) {
+      const before = Atomics.load(seq, 0);
+      if (before & 1) return;
+      const fftSize = fields[1];
+      if (frame.frequency.length !== fftSize / 2) {
+        frame.frequency = new Uint8Array(fftSize / 2);
+      }
+      frame.time = fields[0];
+      frame.fftSize = fftSize;
+      frame.sampleRate = fields[2];
+      frame.pitchHz = fields[3];
+      frame.pitchConfidence = fields[4];
+      frame.zeroCrossingRate = fields[5];
+      frame.frequency.set(spectrum.subarray(0, fftSize / 2));
+      // Torn read — the worklet wrote mid-copy; the next notification catches up
+      if (Atomics.load(seq, 0) !== before) return;
+    }
+
+    lastSeq = msg.seq;
+    frame.minDecibels = current.minDecibels;
+    frame.maxDecibels = current.maxDecibels;
+    onFrame(frame);
+  };
+
+  return {
+    node,
+    configure(next) {
+      current = next;
+      node.port.postMessage({ type: 'config', config: next } satisfies SpectrumProcessorCommand);
+    },
+    dispose() {
+      node.port.onmessage = null;
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Minimal observable store — a plain state object plus change notifications.
+ *
+ * Per-frame code reads `state` directly: no copies, no allocation, no
+ * subscription. Writers go through set() (or mutate in place and call
+ * notify()) so subscribers and useStore() components see every change.
+ * Fields holding objects or arrays are replaced wholesale on change, so a
+ * selector returning one of them is stable until it really changes; stores
+ * whose nested objects are blended in place can be observed by `version`.
+ */
+export type StoreListener = () => void;
+
+export interface Store<T extends object> {
+  /** The live state object — never replaced, only written through set() */
+  readonly state: Readonly<T>;
+  /** Incremented on every change */
+  readonly version: number;
+  /** Shallow-merges a patch into the state and notifies */
+  set(patch: Partial<T>): void;
+  /** Notifies after state was mutated in place (e.g. by a headless core that owns a reference) */
+  notify(): void;
+  /** Called after every change; returns an unsubscribe function */
+  subscribe(listener: StoreListener): () => void;
+  /** Calls listener when the selected value changes (by isEqual); returns an unsubscribe function */
+  select<S>(
+    selector: (state: Readonly<T>) => S,
+    listener: (value: S, previous: S) => void,
+    isEqual?: (a: S, b: S) => boolean
+  ): () => void;
+}
+
+export function createStore<T extends object>(state: T): Store<T> {
+  const listeners = new Set<StoreListener>();
+  let version = 0;
+
+  const notify = () => {
+    version++;
+    for (const listener of listeners) listener();
+  };
+
+  const subscribe = (listener: StoreListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    state,
+    get version() {
+      return version;
+    },
+    set(patch) {
+      Object.assign(state, patch);
+      notify();
+    },
+    notify,
+    subscribe,
+    select(selector, listener, isEqual = Object.is) {
+      let current = selector(state);
+      return subscribe(() => {
+        const next = selector(state);
+        if (isEqual(next, current)) return;
+        const previous = current;
+        current = next;
+        listener(next, previous);
+      });
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Timbre features — spectral shape measures that tell a breathy whisper from
+ * a bright voice at the same loudness. Spectrum inputs are byte-scaled
+ * (getByteFrequencyData style) and converted back to linear magnitude.
+ */
+
+/** Fraction of spectral energy below the rolloff frequency */
+export const ROLLOFF_FRACTION = 0.85;
+
+function byteToMagnitude(byte: number, minDb: number, dbPerStep: number) {
+  return Math.pow(10, (minDb + byte * dbPerStep) / 20);
+}
+
+/**
+ * Magnitude-weighted mean frequency of bins [from, to), in Hz.
+ * Higher for bright, sibilant or breathy sound; 0 for an empty range.
+ */
+export function spectralCentroid(
+  freqData: Uint8Array,
+  from: number,
+  to: number,
+  binHz: number,
+  minDb: number,
+  maxDb: number
+): number {
+  const dbPerStep = (maxDb - minDb) / 255;
+  let weighted = 0;
+  let total = 0;
+  for (let i = from; i < to; i++) {
+    const mag = byteToMagnitude(freqData[i], minDb, dbPerStep);
+    weighted += mag * i;
+    total += mag;
+  }
+  return total > 0 ? (weighted / total) * binHz : 0;
+}
+
+/**
+ * Frequency (Hz) below which `fraction` of the energy in bins [from, to)
+ * lies — how far up the spectrum the sound reaches.
+ */
+export function spectralRolloff(
+  freqData: Uint8Array,
+  from: number,
+  to: number,
+  binHz: number,
+  minDb: number,
+  maxDb: number,
+  fraction = ROLLOFF_FRACTION
+): number {
+  const dbPerStep = (maxDb - minDb) / 255;
+  let total = 0;
+  for (let i = from; i < to; i++) {
+    const mag = byteToMagnitude(freqData[i], minDb, dbPerStep);
+    total += mag * mag;
+  }
+  if (total <= 0) return 0;
+
+  const threshold = total * fraction;
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    const mag = byteToMagnitude(freqData[i], minDb, dbPerStep);
+    sum += mag * mag;
+    if (sum >= threshold) return i * binHz;
+  }
+  return (to - 1) * binHz;
+}
+
+/**
+ * Sign changes per sample over the first `length` samples (0..1).
+ * Voiced speech sits low; fricatives and breath noise sit high.
+ */
+export function zeroCrossingRate(samples: Float32Array, length = samples.length): number {
+  if (length < 2) return 0;
+  let crossings = 0;
+  let prev = samples[0] >= 0;
+  for (let i = 1; i < length; i++) {
+    const cur = samples[i] >= 0;
+    if (cur !== prev) crossings++;
+    prev = cur;
+  }
+  return crossings / (length - 1);
+}
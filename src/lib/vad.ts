@@ -0,0 +1,94 @@
+/**
+ * Voice activity detection.
+ *
+ * A frame counts as speech-like when it carries enough (already noise-gated)
+ * energy AND its spectrum is peaky rather than flat — fans, hiss and room
+ * tone are close to white and score a high spectral flatness, voiced speech
+ * has strong harmonics and scores low. Short bursts (keyboard clicks) are
+ * rejected by requiring a minimum run of speech-like frames, and a hangover
+ * keeps the state from flickering off between words.
+ */
+
+export interface VadOptions {
+  /** Minimum gated band energy (0..1) for a frame to count as speech-like */
+  energyThreshold?: number;
+  /** Maximum spectral flatness (0..1) for a frame to count as speech-like */
+  flatnessThreshold?: number;
+  /** Speech-like frames must persist this long before speech starts */
+  minSpeechMs?: number;
+  /** Speech stays on this long after the last speech-like frame */
+  hangoverMs?: number;
+}
+
+export interface VoiceActivityDetector {
+  readonly isSpeaking: boolean;
+  /** Feed one analysis frame; returns the (possibly updated) speaking state. */
+  update(energy: number, flatness: number, now: number): boolean;
+  reset(): void;
+}
+
+export function createVoiceActivityDetector({
+  energyThreshold = 0.02,
+  flatnessThreshold = 0.45,
+  minSpeechMs = 80,
+  hangoverMs = 350,
+}: VadOptions = {}): VoiceActivityDetector {
+  let isSpeaking = false;
+  let candidateSince = -1;
+  let lastSpeechAt = -Infinity;
+
+  return {
+    get isSpeaking() {
+      return isSpeaking;
+    },
+    update(energy, flatness, now) {
+      const speechLike = energy > energyThreshold && flatness < flatnessThreshold;
+
+      if (speechLike) {
+        if (candidateSince < 0) candidateSince = now;
+        lastSpeechAt = now;
+        if (!isSpeaking && now - candidateSince >= minSpeechMs) isSpeaking = true;
+      } else {
+        candidateSince = -1;
+        if (isSpeaking && now - lastSpeechAt > hangoverMs) isSpeaking = false;
+      }
+
+      return isSpeaking;
+    },
+    reset() {
+      isSpeaking = false;
+      candidateSince = -1;
+      lastSpeechAt = -Infinity;
+    },
+  };
+}
+
+/**
+ * Spectral flatness (Wiener entropy) of byte frequency data over [from, to).
+ * Bytes are linear in dB between minDb and maxDb as produced by
+ * AnalyserNode.getByteFrequencyData. Returns 0 (pure tone) .. 1 (white noise).
+ */
+export function spectralFlatness(
+  freqData: Uint8Array,
+  from: number,
+  to: number,
+  minDb: number,
+  maxDb: number
+): number {
+  const count = to - from;
+  if (count <= 0) return 1;
+
+  const dbPerStep = (maxDb - minDb) / 255;
+  let logSum = 0;
+  let powerSum = 0;
+  for (let i = from; i < to; i++) {
+    const db = minDb + freqData[i] * dbPerStep;
+    // power = 10^(db/10); log(power) = db * ln(10) / 10
+    logSum += db * 0.2302585093;
+    powerSum += Math.pow(10, db / 10);
+  }
+
+  const arithmetic = powerSum / count;
+  if (arithmetic <= 0) return 1;
+  return Math.min(1, Math.exp(logSum / count) / arithmetic);
+}
@@ -0,0 +1,125 @@
+/**
+ * Canvas + audio → WebM. Each rendered frame is copied into a recording
+ * canvas at the chosen size (so the output resolution doesn't depend on the
+ * window), whose captureStream is combined with the audio tracks in one
+ * MediaRecorder — both are timestamped by the recorder's clock, so the
+ * voice stays in sync with the blob.
+ */
+
+/** Output heights; width follows the canvas aspect ratio. 0 = the canvas's own size */
+export const RECORDING_HEIGHTS = [0, 720, 1080, 1440, 2160] as const;
+
+export type RecordingHeight = (typeof RECORDING_HEIGHTS)[number];
+
+/** Video bitrates in bits per second */
+export const RECORDING_BITRATES = [4_000_000, 8_000_000, 16_000_000, 32_000_000] as const;
+
+export interface RecordingOptions {
+  height: RecordingHeight;
+  videoBitsPerSecond: number;
+  fps: number;
+  /** Seconds of countdown before recording starts */
+  countdown: number;
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  height: 1080,
+  videoBitsPerSecond: 8_000_000,
+  fps: 60,
+  countdown: 3,
+};
+
+/** Best WebM flavour this browser can record, or null if none */
+export function pickWebmMimeType() {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const candidates = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/** Output size for a source canvas — even dimensions, as video encoders require */
+export function recordingSize(source: HTMLCanvasElement, height: RecordingHeight) {
+  const h = height || source.height;
+  const w = Math.round((h * source.width) / Math.max(1, source.height));
+  return { width: w + (w % 2), height: h + (h % 2) };
+}
+
+export interface CanvasRecorderOptions extends Omit<RecordingOptions, 'countdown'> {
+  source: HTMLCanvasElement;
+  /** Audio to mix in; null records video only */
+  audio: MediaStream | null;
+  /** The recorder failed and stopped; what it had recorded is still returned by stop() */
+  onError?: (error: Error) => void;
+}
+
+export interface CanvasRecorder {
+  readonly width: number;
+  readonly height: number;
+  /** Copies the source canvas into the recording — call right after each render */
+  drawFrame(): void;
+  /** Stops and resolves to the finished file */
+  stop(): Promise<Blob>;
+}
+
+/** Starts recording immediately; throws if the browser can't record WebM */
+export function createCanvasRecorder({
+  source,
+  audio,
+  height,
+  videoBitsPerSecond,
+  fps,
+  onError,
+}: CanvasRecorderOptions): CanvasRecorder {
+  const mimeType = pickWebmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+  const size = recordingSize(source, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create the recording canvas.');
+  ctx.imageSmoothingQuality = 'high';
+
+  const video = canvas.captureStream(fps);
+  const stream = new MediaStream([...video.getVideoTracks(), ...(audio?.getAudioTracks() ?? [])]);
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond,
+    audioBitsPerSecond: 128_000,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  // Fires after the last chunk, whether stopped by us or by an error
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+  recorder.onerror = (e) => {
+    const error = (e as ErrorEvent).error;
+    onError?.(error instanceof Error ? error : new Error('The browser stopped the recording.'));
+  };
+  // Timesliced, so a long take isn't held in one buffer
+  recorder.start(1000);
+
+  return {
+    width: size.width,
+    height: size.height,
+    drawFrame() {
+      if (recorder.state !== 'recording') return;
+      // The source may be resized mid-take — letterbox rather than stretch
+      const scale = Math.min(canvas.width / source.width, canvas.height / source.height);
+      const w = source.width * scale;
+      const h = source.height * scale;
+      if (w < canvas.width || h < canvas.height) ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(source, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+    },
+    async stop() {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      // Only the video tracks are ours — the audio stream outlives the take
+      video.getTracks().forEach((t) => t.stop());
+      return new Blob(chunks, { type: 'video/webm' });
+    },
+  };
+}
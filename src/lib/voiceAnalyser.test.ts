@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createDefaultAnalyserSettings, createVoiceAnalyser } from './voiceAnalyser';
+import type { VoiceAnalyserConfig, VoiceData } from './voiceAnalyser';
+import { createPcmFrameSource } from './pcmFrames';
+
+const SAMPLE_RATE = 48000;
+const FRAME_CONFIG = { fftSize: 1024, smoothing: 0.85, minDecibels: -90, maxDecibels: -10 };
+
+type Signal = (t: number) => number;
+
+const sine =
+  (hz: number, amplitude = 0.3): Signal =>
+  (t) =>
+    amplitude * Math.sin(2 * Math.PI * hz * t);
+
+/** Several sines spread across a band, so the band's average level is well above its gate */
+const chord =
+  (hz: number[], amplitude = 0.2): Signal =>
+  (t) =>
+    hz.reduce((sum, f) => sum + amplitude * Math.sin(2 * Math.PI * f * t), 0);
+
+const silence: Signal = () => 0;
+
+/** Seeded white noise, so runs are repeatable */
+function noise(amplitude = 0.3, seed = 1): Signal {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let x = Math.imul(state ^ (state >>> 15), 1 | state);
+    x = (x + Math.imul(x ^ (x >>> 7), 61 | x)) ^ x;
+    return amplitude * ((((x ^ (x >>> 14)) >>> 0) / 4294967296) * 2 - 1);
+  };
+}
+
+/**
+ * Drives a core with synthetic audio through the same FFT framing as the
+ * worklet, recording a snapshot after every frame.
+ */
+function createHarness(config: VoiceAnalyserConfig = {}) {
+  const core = createVoiceAnalyser(config);
+  let snapshots: VoiceData[] = [];
+  let samplesSeen = 0;
+  const frames = createPcmFrameSource(
+    () => FRAME_CONFIG,
+    (frame) => {
+      core.process(frame);
+      snapshots.push({ ...core.data, bands: { ...core.data.bands } });
+    }
+  );
+
+  return {
+    core,
+    /** Plays `signal` for `seconds`; returns the frames it produced */
+    play(signal: Signal, seconds: number) {
+      snapshots = [];
+      const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+      for (let i = 0; i < samples.length; i++) samples[i] = signal((samplesSeen + i) / SAMPLE_RATE);
+      samplesSeen += samples.length;
+      frames.push(samples, SAMPLE_RATE);
+      return snapshots;
+    },
+  };
+}
+
+const last = <T>(items: T[]) => items[items.length - 1];
+
+describe('createVoiceAnalyser — band energies', () => {
+  it.each([
+    ['low', [100, 150, 200]],
+    ['mid', [400, 800, 1200, 1600]],
+    ['high', [2500, 4000, 5500, 7000]],
+  ])('puts tones in the %s band into that band', (band, hz) => {
+    const { play } = createHarness();
+    const { bands } = last(play(chord(hz as number[]), 2));
+
+    expect(bands[band]).toBeGreaterThan(0.05);
+    for (const other of ['low', 'mid', 'high'].filter((name) => name !== band)) {
+      expect(bands[band]).toBeGreaterThan(bands[other] * 2);
+    }
+  });
+
+  it('mirrors the named bands and tracks the loudest as amplitude', () => {
+    const { play } = createHarness();
+    const v = last(play(sine(1000), 2));
+
+    expect(v.lowEnergy).toBe(v.bands.low);
+    expect(v.midEnergy).toBe(v.bands.mid);
+    expect(v.highEnergy).toBe(v.bands.high);
+    expect(v.amplitude).toBe(Math.max(v.bands.low, v.bands.mid, v.bands.high));
+  });
+});
+
+describe('createVoiceAnalyser — attack/release envelope', () => {
+  it('rises gradually while a tone plays', () => {
+    const { play } = createHarness();
+    const frames = play(sine(1000), 2);
+    const at = (seconds: number) => frames[Math.floor((seconds * SAMPLE_RATE) / 512) - 1].amplitude;
+
+    expect(at(0.25)).toBeGreaterThan(0);
+    expect(at(0.25)).toBeLessThan(at(0.5));
+    expect(at(0.5)).toBeLessThan(at(2));
+    for (let i = 1; i < frames.length; i++) {
+      expect(frames[i].amplitude).toBeGreaterThanOrEqual(frames[i - 1].amplitude - 1e-6);
+    }
+  });
+
+  it('releases slowly once the tone stops', () => {
+    const { play } = createHarness();
+    const peak = last(play(sine(1000), 2)).amplitude;
+    const tail = play(silence, 3);
+
+    expect(tail[0].amplitude).toBeGreaterThan(peak * 0.9);
+    // The spectrum itself takes a moment to decay; after that, only the release acts
+    const settled = Math.ceil((0.5 * SAMPLE_RATE) / 512);
+    for (let i = settled + 1; i < tail.length; i++) {
+      expect(tail[i].amplitude).toBeLessThanOrEqual(tail[i - 1].amplitude);
+    }
+    expect(last(tail).amplitude).toBeLessThan(peak * 0.5);
+  });
+
+  it('scales the release to the frame spacing, not the frame count', () => {
+    const settle = (hopSeconds: number) => {
+      const core = createVoiceAnalyser({ settings: { ...createDefaultAnalyserSettings(), vadGate: false } });
+      const loud = { frequency: new Uint8Array(512).fill(200), fftSize: 1024, sampleRate: SAMPLE_RATE, minDecibels: -90, maxDecibels: -10 };
+      const quiet = { ...loud, frequency: new Uint8Array(512) };
+      let t = 0;
+      for (; t < 3000; t += hopSeconds * 1000) core.process({ ...loud, time: t });
+      const start = core.data.amplitude;
+      for (const end = t + 1000; t < end; t += hopSeconds * 1000) core.process({ ...quiet, time: t });
+      return core.data.amplitude / start;
+    };
+
+    expect(settle(1 / 30)).toBeCloseTo(settle(1 / 120), 2);
+  });
+});
+
+describe('createVoiceAnalyser — noise gate', () => {
+  it('ignores a tone below the global gate', () => {
+    const { play } = createHarness();
+    const frames = play(sine(1000, 0.0002), 2);
+
+    expect(frames.every((v) => v.amplitude === 0)).toBe(true);
+    expect(last(frames).isSpeaking).toBe(false);
+  });
+
+  it('lets a per-band gate override the global one', () => {
+    const settings = createDefaultAnalyserSettings();
+    settings.bands = settings.bands.map((b) => (b.name === 'mid' ? { ...b, gate: 0.99 } : b));
+    const { play } = createHarness({ settings });
+    const v = last(play(sine(1000), 2));
+
+    expect(v.bands.mid).toBe(0);
+  });
+
+  it('measures the room and writes per-band gates on recalibrate', () => {
+    const onCalibrationEnd = vi.fn();
+    const { core, play } = createHarness({ onCalibrationEnd });
+    core.recalibrate();
+    play(noise(0.001), 3.5);
+
+    expect(onCalibrationEnd).toHaveBeenCalledOnce();
+    expect(core.isCalibrating).toBe(false);
+    for (const band of core.settings.bands) expect(band.gate).toBeTypeOf('number');
+  });
+});
+
+describe('createVoiceAnalyser — voice activity', () => {
+  it('reports speech for a tonal signal and calls back once', () => {
+    const onSpeechStart = vi.fn();
+    const { play } = createHarness({ onSpeechStart });
+    const frames = play(sine(200), 1);
+
+    expect(frames[0].isSpeaking).toBe(false);
+    expect(last(frames).isSpeaking).toBe(true);
+    expect(onSpeechStart).toHaveBeenCalledOnce();
+  });
+
+  it('holds speech through the hangover, then ends it', () => {
+    const onSpeechEnd = vi.fn();
+    const { play } = createHarness({ onSpeechEnd });
+    play(sine(200), 1);
+
+    expect(play(silence, 0.2).every((v) => v.isSpeaking)).toBe(true);
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+    expect(last(play(silence, 1.5)).isSpeaking).toBe(false);
+    expect(onSpeechEnd).toHaveBeenCalledOnce();
+  });
+
+  it('does not treat loud white noise as speech, and gates the envelopes on it', () => {
+    const { play } = createHarness();
+    const frames = play(noise(0.3), 2);
+
+    expect(frames.some((v) => v.isSpeaking)).toBe(false);
+    expect(last(frames).amplitude).toBe(0);
+  });
+
+  it('lets noise drive the envelopes when the VAD gate is off', () => {
+    const settings = { ...createDefaultAnalyserSettings(), vadGate: false };
+    const { play } = createHarness({ settings });
+
+    expect(last(play(noise(0.3), 2)).amplitude).toBeGreaterThan(0.2);
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Headless voice analysis core.
+ *
+ * Turns spectrum (and optionally time-domain) frames into VoiceData: band
+ * summing, noise gating and calibration, sensitivity scaling, voice activity,
+ * onsets, pitch, timbre and the attack/release envelopes. No React, no Web Audio —
+ * the caller decides where frames come from (AnalyserNode, AudioWorklet,
+ * an offline render, a test) and when to feed them.
+ */
+import { bandToBins, cloneBands, DEFAULT_BANDS } from './frequencyBands';
+import type { FrequencyBand } from './frequencyBands';
+import { createPitchDetector } from './pitch';
+import { createVoiceActivityDetector, spectralFlatness } from './vad';
+import type { VadOptions } from './vad';
+import { createOnsetDetector } from './onset';
+import type { OnsetOptions } from './onset';
+import { createNoiseCalibration, adaptNoiseStats, gateFromStats } from './noiseFloor';
+import type { NoiseCalibration, NoiseStats } from './noiseFloor';
+import { spectralCentroid, spectralRolloff, zeroCrossingRate } from './timbre';
+import type { SpectrumFrame } from './spectrumFrame';
+
+export interface VoiceData {
+  amplitude: number;
+  /** Mirrors of the bands named low/mid/high (0 when no such band exists) */
+  lowEnergy: number;
+  midEnergy: number;
+  highEnergy: number;
+  /** Smoothed energy per configured band, keyed by band name */
+  bands: Record<string, number>;
+  /** Smoothed fundamental frequency in Hz; holds its last value while unvoiced */
+  pitchHz: number;
+  /** Smoothed voicing confidence of pitchHz, 0..1 */
+  pitchConfidence: number;
+  /** Voice activity detector state (energy + spectral flatness + hangover) */
+  isSpeaking: boolean;
+  /** Strength (0..1) of the most recent spectral-flux onset */
+  onsetStrength: number;
+  /** Increments on every onset — compare against a stored value to catch new ones */
+  onsetCount: number;
+  // Timbre — smoothed, and held at the last value while there is no signal
+  /** Spectral centroid in Hz — perceived brightness */
+  centroidHz: number;
+  /** Frequency below which 85% of the spectral energy lies, in Hz */
+  rolloffHz: number;
+  /** Spectral flatness, 0 (tonal) .. 1 (noise-like, breathy) */
+  flatness: number;
+  /** Sign changes per sample, 0..1 — high for fricatives and breath */
+  zeroCrossingRate: number;
+}
+
+export function createEmptyVoiceData(): VoiceData {
+  return {
+    amplitude: 0,
+    lowEnergy: 0,
+    midEnergy: 0,
+    highEnergy: 0,
+    bands: {},
+    pitchHz: 0,
+    pitchConfidence: 0,
+    isSpeaking: false,
+    onsetStrength: 0,
+    onsetCount: 0,
+    centroidHz: 0,
+    rolloffHz: 0,
+    flatness: 0,
+    zeroCrossingRate: 0,
+  };
+}
+
+/**
+ * Analysis settings, read on every frame so they can be edited live.
+ * Calibration writes per-band gates back into `bands` (as a new array).
+ */
+export interface VoiceAnalyserSettings {
+  sensitivity: number;
+  /** Global gate, used by bands without a calibrated gate */
+  noiseGate: number;
+  bands: FrequencyBand[];
+  isMuted: boolean;
+  /** Only drive the envelopes while the voice activity detector reports speech */
+  vadGate: boolean;
+  /** Keep re-estimating per-band noise gates from non-speech frames */
+  adaptiveGate: boolean;
+}
+
+export function createDefaultAnalyserSettings(): VoiceAnalyserSettings {
+  return {
+    sensitivity: 3.0,
+    noiseGate: 0.08,
+    bands: cloneBands(DEFAULT_BANDS),
+    isMuted: false,
+    vadGate: true,
+    adaptiveGate: false,
+  };
+}
+
+export interface VoiceAnalyserConfig {
+  /** Live settings object; defaults to a private copy of the defaults */
+  settings?: VoiceAnalyserSettings;
+  vad?: VadOptions;
+  onset?: OnsetOptions;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  /** Strength 0..1 */
+  onOnset?: (strength: number) => void;
+  onCalibrationEnd?: () => void;
+  /** Called after the core writes back into `settings` (calibrated gates) */
+  onSettingsChange?: () => void;
+}
+
+/**
+ * A frame as accepted by process(): pitch and zero-crossing rate may be
+ * precomputed or left to the core
+ */
+export type AnalysisFrame = Omit<
+  SpectrumFrame,
+  'pitchHz' | 'pitchConfidence' | 'zeroCrossingRate'
+> & {
+  pitchHz?: number;
+  pitchConfidence?: number;
+  zeroCrossingRate?: number;
+  /** Time-domain samples for pitch / ZCR when no precomputed value is supplied */
+  timeDomain?: Float32Array;
+};
+
+export interface VoiceAnalyser {
+  /** Mutated in place on every process() call */
+  readonly data: VoiceData;
+  readonly settings: VoiceAnalyserSettings;
+  readonly isCalibrating: boolean;
+  process(frame: AnalysisFrame): VoiceData;
+  /** Measure the noise floor over the next frames and set per-band gates */
+  recalibrate(): void;
+  /** Zero all state (ends speech, cancels calibration) */
+  reset(): void;
+}
+
+/** Estimates below this YIN confidence don't move pitchHz */
+const PITCH_MIN_CONFIDENCE = 0.5;
+/** Envelope constants below are expressed per frame at this spacing */
+const REFERENCE_FRAME_MS = 1000 / 60;
+/** Attack/release per reference frame — very slow, calming smoothing */
+const ATTACK = 0.025;
+const RELEASE = 0.992;
+const MUTE_FADE = 0.9;
+const PITCH_GLIDE = 0.15;
+/** Timbre smoothing per reference frame — quick enough to follow a syllable */
+const TIMBRE_SMOOTHING = 0.1;
+
+/** Spectral range used for the VAD flatness measure — where voice harmonics live */
+const VAD_BAND: FrequencyBand = { name: 'vad', minHz: 100, maxHz: 4000, gain: 1 };
+/** Spectral range watched for onsets — plosives and sibilant attacks reach high */
+const ONSET_BAND: FrequencyBand = { name: 'onset', minHz: 100, maxHz: 8000, gain: 1 };
+/** Spectral range for centroid/rolloff — skips hum below and hiss above the voice */
+const TIMBRE_BAND: FrequencyBand = { name: 'timbre', minHz: 80, maxHz: 10000, gain: 1 };
+/** Minimum spacing between adaptive gate write-backs */
+const ADAPT_WRITE_MS = 1000;
+
+export function createVoiceAnalyser(config: VoiceAnalyserConfig = {}): VoiceAnalyser {
+  const settings = config.settings ?? createDefaultAnalyserSettings();
+  const data = createEmptyVoiceData();
+
+  const detectPitch = createPitchDetector();
+  const vad = createVoiceActivityDetector(config.vad);
+  const onsets = createOnsetDetector(config.onset);
+
+  let rawBands = new Float32Array(0);
+  let calibration: NoiseCalibration | null = null;
+  let calibrationPending = false;
+  let noiseStats: Record<string, NoiseStats> = {};
+  let lastAdaptAt = 0;
+  let lastFrameTime = -1;
+
+  function setSpeaking(speaking: boolean) {
+    if (data.isSpeaking === speaking) return;
+    data.isSpeaking = speaking;
+    if (speaking) config.onSpeechStart?.();
+    else config.onSpeechEnd?.();
+  }
+
+  /** Writes gates derived from the current noise statistics into settings.bands */
+  function applyNoiseGates() {
+    settings.bands = settings.bands.map((band) =>
+      noiseStats[band.name] ? { ...band, gate: gateFromStats(noiseStats[band.name]) } : band
+    );
+    config.onSettingsChange?.();
+  }
+
+  function endCalibration() {
+    if (!calibration && !calibrationPending) return;
+    calibration = null;
+    calibrationPending = false;
+    config.onCalibrationEnd?.();
+  }
+
+  function process(frame: AnalysisFrame): VoiceData {
+    const v = data;
+    const now = frame.time;
+
+    // Envelope rates are tuned per 60 fps frame; scale them to the real frame spacing
+    const frameScale =
+      lastFrameTime < 0
+        ? 1
+        : Math.max(0, Math.min(6, (now - lastFrameTime) / REFERENCE_FRAME_MS));
+    lastFrameTime = now;
+
+    // Mute: fade out smoothly
+    if (settings.isMuted) {
+      const fade = Math.pow(MUTE_FADE, frameScale);
+      v.amplitude *= fade;
+      v.lowEnergy *= fade;
+      v.midEnergy *= fade;
+      v.highEnergy *= fade;
+      for (const name in v.bands) v.bands[name] *= fade;
+      v.pitchConfidence *= fade;
+      vad.reset();
+      onsets.reset();
+      setSpeaking(false);
+      return v;
+    }
+
+    const freqData = frame.frequency;
+    const bufferLength = frame.fftSize / 2;
+
+    // Apply sensitivity — very slow, calming smoothing
+    const sensitivity = settings.sensitivity;
+    const attack = 1 - Math.pow(1 - ATTACK, frameScale);
+    const release = Math.pow(RELEASE, frameScale);
+
+    const bands = settings.bands;
+    if (rawBands.length < bands.length) {
+      rawBands = new Float32Array(bands.length);
+    }
+
+    if (calibrationPending) {
+      calibrationPending = false;
+      calibration = createNoiseCalibration(now);
+    }
+    const calibrating = calibration;
+    let rawEnergy = 0;
+
+    for (let b = 0; b < bands.length; b++) {
+      const band = bands[b];
+
+      // Frequency band sum over the band's Hz range
+      const [from, to] = bandToBins(band, frame.sampleRate, frame.fftSize, bufferLength);
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += freqData[i];
+      const raw = sum / ((to - from) * 255);
+
+      // Noise floor — calibration window, or slow drift tracking while silent
+      if (calibrating) {
+        calibrating.add(band.name, raw);
+      } else if (settings.adaptiveGate && !v.isSpeaking) {
+        const stats = (noiseStats[band.name] ??= { mean: raw, variance: 0 });
+        adaptNoiseStats(stats, raw);
+      }
+
+      // Noise gate — calibrated per-band gate, else the global value
+      const gate = band.gate ?? settings.noiseGate;
+      rawBands[b] = raw > gate ? (raw - gate) / (1 - gate) : 0;
+      if (rawBands[b] > rawEnergy) rawEnergy = rawBands[b];
+    }
+
+    if (calibrating?.isDone(now)) {
+      noiseStats = calibrating.finish();
+      applyNoiseGates();
+      endCalibration();
+    } else if (settings.adaptiveGate && !calibrating && now - lastAdaptAt > ADAPT_WRITE_MS) {
+      lastAdaptAt = now;
+      applyNoiseGates();
+    }
+
+    // Voice activity — energy + spectral flatness + hangover timing
+    const [vadFrom, vadTo] = bandToBins(VAD_BAND, frame.sampleRate, frame.fftSize, bufferLength);
+    const flatness = spectralFlatness(
+      freqData,
+      vadFrom,
+      vadTo,
+      frame.minDecibels,
+      frame.maxDecibels
+    );
+    setSpeaking(calibrating ? false : vad.update(rawEnergy, flatness, now));
+
+    // When gating on speech, non-speech sound releases the envelopes instead of driving them.
+    // They also stay calm while the room is being measured.
+    const gated = (settings.vadGate && !v.isSpeaking) || calibrating !== null;
+    let amplitude = 0;
+
+    for (let b = 0; b < bands.length; b++) {
+      const band = bands[b];
+      const target = gated ? 0 : Math.min(1, rawBands[b] * sensitivity * band.gain);
+      const current = v.bands[band.name] ?? 0;
+      const next =
+        target > current
+          ? current + (target - current) * attack
+          : current * release;
+
+      // Clamp and track overall amplitude
+      const clamped = Math.max(0, Math.min(1, next)) || 0;
+      v.bands[band.name] = clamped;
+      if (clamped > amplitude) amplitude = clamped;
+    }
+
+    // Onsets — spectral flux transients, subject to the same gating as the bands
+    const [onsetFrom, onsetTo] = bandToBins(ONSET_BAND, frame.sampleRate, frame.fftSize, bufferLength);
+    const onset = onsets.update(freqData, onsetFrom, onsetTo, now);
+    if (onset > 0 && !gated && rawEnergy > 0) {
+      v.onsetStrength = onset;
+      v.onsetCount++;
+      config.onOnset?.(onset);
+    }
+
+    // Drop energies of bands that were removed or renamed
+    if (Object.keys(v.bands).length !== bands.length) {
+      for (const name in v.bands) {
+        if (!bands.some((b) => b.name === name)) delete v.bands[name];
+      }
+    }
+
+    v.lowEnergy = v.bands.low ?? 0;
+    v.midEnergy = v.bands.mid ?? 0;
+    v.highEnergy = v.bands.high ?? 0;
+    v.amplitude = amplitude;
+
+    // Pitch — precomputed by the frame source, or YIN on the supplied samples
+    let pitchHz = frame.pitchHz ?? 0;
+    let pitchConfidence = frame.pitchConfidence ?? 0;
+    if (frame.pitchHz === undefined && frame.timeDomain) {
+      const pitch = detectPitch(frame.timeDomain, frame.sampleRate);
+      pitchHz = pitch.hz;
+      pitchConfidence = pitch.confidence;
+    }
+
+    // Only trust pitch while there is audible signal to carry it
+    const confidence = amplitude > 0 ? pitchConfidence : 0;
+    v.pitchConfidence =
+      confidence > v.pitchConfidence
+        ? v.pitchConfidence + (confidence - v.pitchConfidence) * Math.min(1, attack * 4)
+        : v.pitchConfidence * release;
+
+    if (pitchHz > 0 && confidence >= PITCH_MIN_CONFIDENCE) {
+      // Glide in the log domain so octave jumps don't overshoot
+      const glide = 1 - Math.pow(1 - PITCH_GLIDE, frameScale);
+      v.pitchHz = v.pitchHz > 0
+        ? Math.exp(Math.log(v.pitchHz) + (Math.log(pitchHz) - Math.log(v.pitchHz)) * glide)
+        : pitchHz;
+    }
+
+    // Timbre — only measured while something audible is driving the envelopes
+    if (!gated && rawEnergy > 0) {
+      const [timbreFrom, timbreTo] = bandToBins(
+        TIMBRE_BAND,
+        frame.sampleRate,
+        frame.fftSize,
+        bufferLength
+      );
+      const binHz = frame.sampleRate / frame.fftSize;
+      const { minDecibels, maxDecibels } = frame;
+      const centroid = spectralCentroid(freqData, timbreFrom, timbreTo, binHz, minDecibels, maxDecibels);
+      const rolloff = spectralRolloff(freqData, timbreFrom, timbreTo, binHz, minDecibels, maxDecibels);
+      const zcr =
+        frame.zeroCrossingRate ?? (frame.timeDomain ? zeroCrossingRate(frame.timeDomain) : 0);
+
+      const k = 1 - Math.pow(1 - TIMBRE_SMOOTHING, frameScale);
+      // First measurement snaps instead of sweeping up from 0 Hz
+      v.centroidHz = v.centroidHz > 0 ? v.centroidHz + (centroid - v.centroidHz) * k : centroid;
+      v.rolloffHz = v.rolloffHz > 0 ? v.rolloffHz + (rolloff - v.rolloffHz) * k : rolloff;
+      v.flatness += (flatness - v.flatness) * k;
+      v.zeroCrossingRate += (zcr - v.zeroCrossingRate) * k;
+    }
+
+    return v;
+  }
+
+  return {
+    data,
+    settings,
+    get isCalibrating() {
+      return calibration !== null || calibrationPending;
+    },
+    process,
+    recalibrate() {
+      // Started on the next frame so it runs on the frame clock
+      calibration = null;
+      calibrationPending = true;
+    },
+    reset() {
+      setSpeaking(false);
+      endCalibration();
+      vad.reset();
+      onsets.reset();
+      Object.assign(data, createEmptyVoiceData());
+      lastFrameTime = -1;
+      lastAdaptAt = 0;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyVoiceData } from './voiceAnalyser';
+import { createDefaultDebugSettings } from './debugStore';
+import { TIMELINE_FORMAT, TIMELINE_VERSION, parseTimeline } from './voiceTimeline';
+
+function timeline(patch: Record<string, unknown> = {}) {
+  return {
+    format: TIMELINE_FORMAT,
+    version: TIMELINE_VERSION,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    duration: 16,
+    settings: createDefaultDebugSettings(),
+    settingsChanges: [],
+    frames: [
+      { t: 0, data: createEmptyVoiceData() },
+      { t: 16, data: { ...createEmptyVoiceData(), amplitude: 0.5, bands: { low: 0.5 } } },
+    ],
+    ...patch,
+  };
+}
+
+describe('parseTimeline', () => {
+  it('accepts a timeline as recorded', () => {
+    const parsed = parseTimeline(JSON.parse(JSON.stringify(timeline())));
+
+    expect(parsed.frames[1].data.amplitude).toBe(0.5);
+    expect(parsed.settings).toEqual(createDefaultDebugSettings());
+  });
+
+  it('fills settings the snapshot is missing or has invalid, instead of passing them on', () => {
+    const settings: Record<string, unknown> = { ...createDefaultDebugSettings(), fftSize: 3 };
+    delete settings.bands;
+    const parsed = parseTimeline(timeline({ settings }));
+
+    expect(parsed.settings.fftSize).toBe(createDefaultDebugSettings().fftSize);
+    expect(parsed.settings.bands).toEqual(createDefaultDebugSettings().bands);
+  });
+
+  it('drops invalid recorded settings edits', () => {
+    const parsed = parseTimeline(
+      timeline({
+        settingsChanges: [
+          { t: 5, changes: { sensitivity: 2, fftSize: 3 } },
+          { t: 10, changes: { bands: 'none' } },
+          { t: NaN, changes: { sensitivity: 1 } },
+        ],
+      })
+    );
+
+    expect(parsed.settingsChanges).toEqual([{ t: 5, changes: { sensitivity: 2 } }]);
+  });
+
+  it.each([
+    ['a non-finite time', { t: null, data: createEmptyVoiceData() }],
+    ['a non-finite field', { t: 16, data: { ...createEmptyVoiceData(), amplitude: 'loud' } }],
+    ['a non-finite band', { t: 16, data: { ...createEmptyVoiceData(), bands: { low: null } } }],
+    ['missing bands', { t: 16, data: { ...createEmptyVoiceData(), bands: undefined } }],
+    ['a time before the previous frame', { t: -1, data: createEmptyVoiceData() }],
+  ])('rejects a frame with %s', (_, frame) => {
+    const frames = [{ t: 0, data: createEmptyVoiceData() }, frame];
+
+    expect(() => parseTimeline(timeline({ frames }))).toThrow('Timeline frame 2 is invalid.');
+  });
+
+  it('reads version 1 frames, which predate the timbre fields', () => {
+    const { centroidHz: _c, rolloffHz: _r, flatness: _f, zeroCrossingRate: _z, ...v1 } = createEmptyVoiceData();
+    const parsed = parseTimeline(timeline({ version: 1, frames: [{ t: 0, data: v1 }] }));
+
+    expect(parsed.version).toBe(TIMELINE_VERSION);
+    expect(parsed.frames[0].data.flatness).toBe(0);
+  });
+
+  it('requires the timbre fields from version 2 on', () => {
+    const { flatness: _, ...data } = createEmptyVoiceData();
+
+    expect(() => parseTimeline(timeline({ frames: [{ t: 0, data }] }))).toThrow('Timeline frame 1 is invalid.');
+  });
+});
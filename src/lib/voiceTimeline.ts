@@ -0,0 +1,243 @@
+/**
+ * VoiceData timelines — a timestamped JSON recording of the per-frame
+ * VoiceData stream plus every debugStore change, replayable into the blob in
+ * place of live audio so the exact same motion can be reproduced.
+ */
+import type { VoiceData } from './voiceAnalyser';
+import { createDefaultDebugSettings } from './debugStore';
+import type { DebugSettings } from './debugStore';
+import { pickValidSettings } from './settingsPersistence';
+import type { Store } from './store';
+
+export const TIMELINE_FORMAT = 'voice-blob-timeline';
+/** 2: frames carry the timbre fields (centroidHz, rolloffHz, flatness, zeroCrossingRate) */
+export const TIMELINE_VERSION = 2;
+
+const NUMERIC_FIELDS = [
+  'amplitude',
+  'lowEnergy',
+  'midEnergy',
+  'highEnergy',
+  'pitchHz',
+  'pitchConfidence',
+  'onsetStrength',
+  'onsetCount',
+] as const;
+
+/** Added in version 2 — version 1 frames are read with these at 0 */
+const TIMBRE_FIELDS = ['centroidHz', 'rolloffHz', 'flatness', 'zeroCrossingRate'] as const;
+
+export interface TimelineFrame {
+  /** ms since recording start */
+  t: number;
+  data: VoiceData;
+}
+
+export interface TimelineSettingsChange {
+  t: number;
+  changes: Partial<DebugSettings>;
+}
+
+export interface VoiceTimeline {
+  format: typeof TIMELINE_FORMAT;
+  version: number;
+  /** ISO date of the recording */
+  recordedAt: string;
+  /** ms */
+  duration: number;
+  /** debugStore at the moment recording started */
+  settings: DebugSettings;
+  settingsChanges: TimelineSettingsChange[];
+  frames: TimelineFrame[];
+}
+
+function snapshotVoiceData(v: VoiceData): VoiceData {
+  return { ...v, bands: { ...v.bands } };
+}
+
+function snapshotSettings(settings: Readonly<DebugSettings>): DebugSettings {
+  return { ...settings, bands: settings.bands.map((b) => ({ ...b })) };
+}
+
+/**
+ * Captures VoiceData frames and settings diffs. Settings are compared
+ * shallowly — bands are replaced wholesale on edit, so a reference change
+ * is a real change.
+ */
+export function createTimelineRecorder(settings: Readonly<DebugSettings>, startedAt: number) {
+  const initial = snapshotSettings(settings);
+  let last: DebugSettings = { ...settings };
+  const frames: TimelineFrame[] = [];
+  const settingsChanges: TimelineSettingsChange[] = [];
+  let lastT = 0;
+
+  return {
+    capture(data: VoiceData, now: number) {
+      const t = now - startedAt;
+      lastT = t;
+
+      let changes: Partial<DebugSettings> | null = null;
+      for (const key of Object.keys(settings) as (keyof DebugSettings)[]) {
+        if (settings[key] !== last[key]) {
+          changes ??= {};
+          (changes as Record<string, unknown>)[key] =
+            key === 'bands' ? settings.bands.map((b) => ({ ...b })) : settings[key];
+        }
+      }
+      if (changes) {
+        settingsChanges.push({ t, changes });
+        last = { ...settings };
+      }
+
+      frames.push({ t, data: snapshotVoiceData(data) });
+    },
+    get frameCount() {
+      return frames.length;
+    },
+    finish(): VoiceTimeline {
+      return {
+        format: TIMELINE_FORMAT,
+        version: TIMELINE_VERSION,
+        recordedAt: new Date().toISOString(),
+        duration: lastT,
+        settings: initial,
+        settingsChanges,
+        frames,
+      };
+    },
+  };
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object';
+
+/** A frame with every VoiceData field finite, or null when it has any bad field */
+function parseFrame(json: unknown, version: number): TimelineFrame | null {
+  if (!isRecord(json) || !isFiniteNumber(json.t) || !isRecord(json.data)) return null;
+  const raw = json.data;
+  const data = { isSpeaking: raw.isSpeaking === true, bands: {} } as VoiceData;
+
+  for (const key of NUMERIC_FIELDS) {
+    if (!isFiniteNumber(raw[key])) return null;
+    data[key] = raw[key];
+  }
+  for (const key of TIMBRE_FIELDS) {
+    if (version < 2 && raw[key] === undefined) data[key] = 0;
+    else if (isFiniteNumber(raw[key])) data[key] = raw[key];
+    else return null;
+  }
+  if (!isRecord(raw.bands)) return null;
+  for (const [name, value] of Object.entries(raw.bands)) {
+    if (!isFiniteNumber(value)) return null;
+    data.bands[name] = value;
+  }
+  return { t: json.t, data };
+}
+
+/**
+ * Validates untrusted JSON (e.g. a loaded file) as a timeline.
+ * Throws with a user-presentable message when it isn't one. Settings go
+ * through the same schema as persisted ones: invalid fields take their
+ * defaults, and invalid recorded edits are dropped.
+ */
+export function parseTimeline(json: unknown): VoiceTimeline {
+  const t = json as Partial<VoiceTimeline> | null;
+  if (!t || typeof t !== 'object' || t.format !== TIMELINE_FORMAT) {
+    throw new Error('Not a voice-blob timeline file.');
+  }
+  if (typeof t.version !== 'number' || t.version > TIMELINE_VERSION) {
+    throw new Error(`Unsupported timeline version ${t.version}.`);
+  }
+  if (!Array.isArray(t.frames) || t.frames.length === 0) {
+    throw new Error('Timeline contains no frames.');
+  }
+  if (!isRecord(t.settings)) {
+    throw new Error('Timeline is missing its settings snapshot.');
+  }
+
+  const frames: TimelineFrame[] = [];
+  for (const [i, raw] of t.frames.entries()) {
+    const frame = parseFrame(raw, t.version);
+    // Playback walks frames forward, so they must be in time order
+    if (!frame || (i > 0 && frame.t < frames[i - 1].t)) {
+      throw new Error(`Timeline frame ${i + 1} is invalid.`);
+    }
+    frames.push(frame);
+  }
+
+  const settingsChanges: TimelineSettingsChange[] = [];
+  for (const change of Array.isArray(t.settingsChanges) ? t.settingsChanges : []) {
+    if (!isRecord(change) || !isFiniteNumber(change.t) || !isRecord(change.changes)) continue;
+    const changes = pickValidSettings(change.changes);
+    if (Object.keys(changes).length > 0) settingsChanges.push({ t: change.t, changes });
+  }
+
+  return {
+    format: TIMELINE_FORMAT,
+    version: TIMELINE_VERSION,
+    recordedAt: typeof t.recordedAt === 'string' ? t.recordedAt : '',
+    duration: isFiniteNumber(t.duration) ? t.duration : frames[frames.length - 1].t,
+    settings: { ...createDefaultDebugSettings(), ...pickValidSettings(t.settings) },
+    settingsChanges,
+    frames,
+  };
+}
+
+/**
+ * Plays a timeline back: sample(t) writes the interpolated VoiceData for
+ * time t into `out`, and applySettings(t) replays recorded debugStore edits
+ * up to t into `target` (usually settingsStore).
+ */
+export function createTimelinePlayer(timeline: VoiceTimeline) {
+  const { frames, settingsChanges } = timeline;
+  let frameIndex = 0;
+  let changeIndex = 0;
+
+  return {
+    duration: timeline.duration,
+    /** Rewind to the start and restore the initial settings snapshot */
+    rewind(target: Store<DebugSettings>) {
+      frameIndex = 0;
+      changeIndex = 0;
+      target.set(snapshotSettings(timeline.settings));
+    },
+    sample(t: number, out: VoiceData) {
+      while (frameIndex < frames.length - 1 && frames[frameIndex + 1].t <= t) frameIndex++;
+      const a = frames[frameIndex];
+      const b = frames[Math.min(frameIndex + 1, frames.length - 1)];
+      const span = b.t - a.t;
+      const k = span > 0 ? Math.max(0, Math.min(1, (t - a.t) / span)) : 0;
+      const lerp = (x: number, y: number) => x + (y - x) * k;
+
+      out.amplitude = lerp(a.data.amplitude, b.data.amplitude);
+      out.lowEnergy = lerp(a.data.lowEnergy, b.data.lowEnergy);
+      out.midEnergy = lerp(a.data.midEnergy, b.data.midEnergy);
+      out.highEnergy = lerp(a.data.highEnergy, b.data.highEnergy);
+      for (const name in out.bands) {
+        if (!(name in a.data.bands)) delete out.bands[name];
+      }
+      for (const name in a.data.bands) {
+        out.bands[name] = lerp(a.data.bands[name], b.data.bands[name] ?? a.data.bands[name]);
+      }
+      out.pitchHz = lerp(a.data.pitchHz, b.data.pitchHz);
+      out.pitchConfidence = lerp(a.data.pitchConfidence, b.data.pitchConfidence);
+      out.centroidHz = lerp(a.data.centroidHz, b.data.centroidHz);
+      out.rolloffHz = lerp(a.data.rolloffHz, b.data.rolloffHz);
+      out.flatness = lerp(a.data.flatness, b.data.flatness);
+      out.zeroCrossingRate = lerp(a.data.zeroCrossingRate, b.data.zeroCrossingRate);
+      // Discrete fields follow the earlier frame
+      out.isSpeaking = a.data.isSpeaking;
+      out.onsetStrength = a.data.onsetStrength;
+      out.onsetCount = a.data.onsetCount;
+    },
+    applySettings(t: number, target: Store<DebugSettings>) {
+      while (changeIndex < settingsChanges.length && settingsChanges[changeIndex].t <= t) {
+        target.set(settingsChanges[changeIndex].changes);
+        changeIndex++;
+      }
+    },
+  };
+}
+
+export type TimelinePlayer = ReturnType<typeof createTimelinePlayer>;
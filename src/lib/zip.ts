@@ -0,0 +1,159 @@
+/**
+ * Minimal ZIP writer — stored (uncompressed) entries only, which is all an
+ * archive of PNGs needs. Entry data stays as the Blobs it was added as, so
+ * the browser can page a large archive to disk; Zip64 records kick in once
+ * offsets pass 4 GB or there are more than 65535 entries.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const U16_MAX = 0xffff;
+const U32_MAX = 0xffffffff;
+/** Bit 11: names are UTF-8 */
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+/** MS-DOS time and date fields */
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day =
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+export function createZipWriter(modified = new Date()) {
+  const { time, day } = dosDateTime(modified);
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  const push = (part: Uint8Array<ArrayBuffer> | Blob) => {
+    parts.push(part);
+    offset += part instanceof Blob ? part.size : part.byteLength;
+  };
+
+  return {
+    /** Bytes written so far */
+    get size() {
+      return offset;
+    },
+
+    /** Appends a stored entry; reads the data once for its checksum */
+    async add(name: string, data: Blob) {
+      if (data.size >= U32_MAX) throw new Error(`${name} is too large for a ZIP entry.`);
+      const nameBytes = encoder.encode(name);
+      const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+
+      const header = new Uint8Array(30 + nameBytes.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, VERSION_DEFAULT, true);
+      view.setUint16(6, FLAG_UTF8, true);
+      view.setUint16(8, 0, true); // stored
+      view.setUint16(10, time, true);
+      view.setUint16(12, day, true);
+      view.setUint32(14, crc, true);
+      view.setUint32(18, data.size, true);
+      view.setUint32(22, data.size, true);
+      view.setUint16(26, nameBytes.length, true);
+      view.setUint16(28, 0, true);
+      header.set(nameBytes, 30);
+
+      entries.push({ name: nameBytes, crc, size: data.size, offset });
+      push(header);
+      push(data);
+    },
+
+    /** Writes the central directory and returns the archive */
+    finish() {
+      const directoryOffset = offset;
+      for (const entry of entries) {
+        const zip64 = entry.offset >= U32_MAX;
+        const record = new Uint8Array(46 + entry.name.length + (zip64 ? 12 : 0));
+        const view = new DataView(record.buffer);
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+        view.setUint16(6, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+        view.setUint16(8, FLAG_UTF8, true);
+        view.setUint16(10, 0, true);
+        view.setUint16(12, time, true);
+        view.setUint16(14, day, true);
+        view.setUint32(16, entry.crc, true);
+        view.setUint32(20, entry.size, true);
+        view.setUint32(24, entry.size, true);
+        view.setUint16(28, entry.name.length, true);
+        view.setUint16(30, zip64 ? 12 : 0, true);
+        // comment length, disk, internal and external attributes stay 0
+        view.setUint32(42, zip64 ? U32_MAX : entry.offset, true);
+        record.set(entry.name, 46);
+        if (zip64) {
+          // Zip64 extended information: just the header offset
+          const extra = 46 + entry.name.length;
+          view.setUint16(extra, 0x0001, true);
+          view.setUint16(extra + 2, 8, true);
+          view.setBigUint64(extra + 4, BigInt(entry.offset), true);
+        }
+        push(record);
+      }
+      const directorySize = offset - directoryOffset;
+
+      const needsZip64 =
+        entries.length >= U16_MAX || directoryOffset >= U32_MAX || directorySize >= U32_MAX;
+      if (needsZip64) {
+        const endOffset = offset;
+        const end64 = new Uint8Array(56 + 20);
+        const view = new DataView(end64.buffer);
+        // Zip64 end of central directory record
+        view.setUint32(0, 0x06064b50, true);
+        view.setBigUint64(4, 44n, true);
+        view.setUint16(12, VERSION_ZIP64, true);
+        view.setUint16(14, VERSION_ZIP64, true);
+        view.setBigUint64(24, BigInt(entries.length), true);
+        view.setBigUint64(32, BigInt(entries.length), true);
+        view.setBigUint64(40, BigInt(directorySize), true);
+        view.setBigUint64(48, BigInt(directoryOffset), true);
+        // ...and its locator
+        view.setUint32(56, 0x07064b50, true);
+        view.setBigUint64(64, BigInt(endOffset), true);
+        view.setUint32(72, 1, true);
+        push(end64);
+      }
+
+      const end = new Uint8Array(22);
+      const view = new DataView(end.buffer);
+      view.setUint32(0, 0x06054b50, true);
+      view.setUint16(8, Math.min(entries.length, U16_MAX), true);
+      view.setUint16(10, Math.min(entries.length, U16_MAX), true);
+      view.setUint32(12, needsZip64 ? U32_MAX : directorySize, true);
+      view.setUint32(16, needsZip64 ? U32_MAX : directoryOffset, true);
+      push(end);
+
+      return new Blob(parts, { type: 'application/zip' });
+    },
+  };
+}
+
+export type ZipWriter = ReturnType<typeof createZipWriter>;
@@ -2,6 +2,11 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { settingsStore } from './lib/debugStore'
+import { loadSettings } from './lib/settingsPersistence'
+
+// Restore saved settings before anything reads the store
+loadSettings(settingsStore)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
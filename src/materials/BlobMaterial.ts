@@ -2,6 +2,8 @@ import * as THREE from 'three';
 import noiseGlsl from '../shaders/noise.glsl?raw';
 import blobVertexGlsl from '../shaders/blobVertex.glsl?raw';
 import blobFragmentGlsl from '../shaders/blobFragment.glsl?raw';
+import { DEFAULT_PALETTE, MAX_PALETTE_STOPS, resolvePalette } from '../lib/palette';
+import type { ResolvedStop } from '../lib/palette';
 
 /**
  * Default uniform values for the blob shader.
@@ -20,6 +22,11 @@ export const BLOB_DEFAULTS = {
   fixNormals: 1.0,
   gooPoleAmount: 0.95,      // allow deformation almost everywhere
   surfacePoleAmount: 0.85,  // surface waves reach the poles
+  hueShift: 0,              // gradient hue rotation in turns (pitch-driven)
+  hueOffset: 0,             // constant gradient hue rotation in turns (colour setting)
+  saturation: 2.0,          // saturation boost over the PBR wash (1 = none)
+  pulse: 0,                 // extra radial displacement from onset impulses
+  tintAmount: 0,            // blend of the gradient towards tintColor (assistant states)
 } as const;
 
 export type BlobUniforms = {
@@ -60,9 +67,27 @@ function createMouseUniforms(): MouseUniforms {
   };
 }
 
+/** Gradient palette uniforms — fixed-size arrays, unused stops weigh zero */
+export type PaletteUniforms = {
+  paletteColors: THREE.IUniform<THREE.Color[]>;
+  /** position, width, weight */
+  paletteStops: THREE.IUniform<THREE.Vector3[]>;
+  /** Display-space colour mixed over the gradient by tintAmount */
+  tintColor: THREE.IUniform<THREE.Color>;
+};
+
+function createPaletteUniforms(): PaletteUniforms {
+  return {
+    paletteColors: { value: Array.from({ length: MAX_PALETTE_STOPS }, () => new THREE.Color()) },
+    paletteStops: { value: Array.from({ length: MAX_PALETTE_STOPS }, () => new THREE.Vector3()) },
+    tintColor: { value: new THREE.Color(1, 1, 1) },
+  };
+}
+
 export class BlobMaterial extends THREE.MeshPhysicalMaterial {
   uniforms: BlobUniforms;
   mouseUniforms: MouseUniforms;
+  paletteUniforms: PaletteUniforms;
 
   constructor(params?: THREE.MeshPhysicalMaterialParameters) {
     super({
@@ -89,6 +114,8 @@ export class BlobMaterial extends THREE.MeshPhysicalMaterial {
 
     this.uniforms = createBlobUniforms();
     this.mouseUniforms = createMouseUniforms();
+    this.paletteUniforms = createPaletteUniforms();
+    this.setPalette(resolvePalette(DEFAULT_PALETTE).stops);
 
     this.onBeforeCompile = (shader) => {
       // Merge blob uniforms into the shader's uniform set
@@ -99,6 +126,10 @@ export class BlobMaterial extends THREE.MeshPhysicalMaterial {
       for (const [key, uniform] of Object.entries(this.mouseUniforms)) {
         shader.uniforms[key] = uniform;
       }
+      // Merge palette uniforms
+      for (const [key, uniform] of Object.entries(this.paletteUniforms)) {
+        shader.uniforms[key] = uniform;
+      }
 
       // =============================================
       // VERTEX SHADER MODIFICATIONS
@@ -190,6 +221,13 @@ varying float vDisplacement;
 uniform float time;
 uniform float speed;
 uniform float frequency;
+uniform float hueShift;
+uniform float hueOffset;
+uniform float saturation;
+uniform float tintAmount;
+uniform vec3 tintColor;
+
+#define MAX_PALETTE_STOPS ${MAX_PALETTE_STOPS}
 
 ${noiseGlsl}
 ${blobFragmentGlsl}
@@ -224,10 +262,13 @@ gradParam = clamp(gradParam + fresnel * 0.08, 0.0, 1.0);
 
 // Sample the gradient — bell-curve weights give multi-color mix
 vec3 gradientColor = meshGradient(gradParam);
+gradientColor = hueRotate(gradientColor, hueShift + hueOffset);
 
 // Heavy saturation boost — compensates for PBR material wash
 float luma = dot(gradientColor, vec3(0.299, 0.587, 0.114));
-gradientColor = mix(vec3(luma), gradientColor, 2.0);
+gradientColor = mix(vec3(luma), gradientColor, saturation);
+// State tint — washes the palette towards one colour
+gradientColor = mix(gradientColor, tintColor, tintAmount);
 // Push values deeper — clamp keeps things valid
 gradientColor = clamp(gradientColor * 1.15, 0.0, 1.0);
 
@@ -239,6 +280,29 @@ diffuseColor.rgb = gradientColor;
     this.needsUpdate = true;
   }
 
+  /**
+   * Writes gradient stops into the palette uniforms (no allocation, safe per
+   * frame). Stops beyond MAX_PALETTE_STOPS are ignored.
+   */
+  setPalette(stops: readonly ResolvedStop[]) {
+    const { paletteColors, paletteStops } = this.paletteUniforms;
+    for (let i = 0; i < MAX_PALETTE_STOPS; i++) {
+      const stop = stops[i];
+      if (stop) {
+        // The shader's colours are display values, as the original constants were
+        paletteColors.value[i].copy(stop.color).convertLinearToSRGB();
+        paletteStops.value[i].set(stop.position, stop.width, stop.weight);
+      } else {
+        paletteStops.value[i].set(0, 1, 0);
+      }
+    }
+  }
+
+  /** Sets the tint colour (a working-space colour, converted like the palette) */
+  setTint(color: THREE.Color) {
+    this.paletteUniforms.tintColor.value.copy(color).convertLinearToSRGB();
+  }
+
   /**
    * Call this every frame to advance animation time.
    */
@@ -0,0 +1,205 @@
+import { Component, Suspense, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import { advance, createRoot } from '@react-three/fiber';
+import { Environment } from '@react-three/drei';
+import * as THREE from 'three';
+import { VoiceReactiveBlob } from '../components/VoiceReactiveBlob';
+import { PaletteLights } from '../components/PaletteLights';
+import type { DebugSettings } from '../lib/debugStore';
+import type { BlobLook } from '../lib/blobLook';
+import type { AssistantState } from '../lib/assistantState';
+import type { OfflineAnalysis } from '../lib/offlineAnalysis';
+import type { VoiceData } from '../lib/voiceAnalyser';
+
+export interface OfflineRenderOptions {
+  analysis: OfflineAnalysis;
+  /** Frozen copies — nothing live should change mid-render */
+  settings: Readonly<DebugSettings>;
+  look: BlobLook;
+  width: number;
+  height: number;
+  assistantState?: AssistantState;
+  /** Receives each frame as a PNG, in order; the next frame waits for it */
+  onFrame: (index: number, png: Blob) => Promise<void>;
+  /** 0..1 */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/** How long the scene's assets (the environment map) may take to load */
+const READY_TIMEOUT_MS = 30_000;
+
+/** Used when WebGL can't be queried; the render itself then reports the failure */
+const FALLBACK_MAX_RENDER_SIZE = 4096;
+
+let maxSize: number | null = null;
+
+/**
+ * Largest width or height this GPU can render to, from a throwaway WebGL
+ * context (queried once).
+ */
+export function maxRenderSize() {
+  if (maxSize !== null) return maxSize;
+  const canvas = document.createElement('canvas');
+  const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+  if (!gl) return FALLBACK_MAX_RENDER_SIZE;
+  const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+  maxSize = Math.min(gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number, viewport[0], viewport[1]);
+  gl.getExtension('WEBGL_lose_context')?.loseContext();
+  return maxSize;
+}
+
+/** Signals once everything above it in the Suspense boundary has loaded */
+function Ready({ onReady }: { onReady: () => void }) {
+  useEffect(() => onReady(), [onReady]);
+  return null;
+}
+
+/** Reports a failed load (e.g. the environment map) instead of leaving the render waiting */
+class LoadErrorBoundary extends Component<{ onError: (error: unknown) => void; children: ReactNode }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+interface OfflineSceneProps {
+  voiceData: React.RefObject<VoiceData>;
+  settings: Readonly<DebugSettings>;
+  look: BlobLook;
+  assistantState: AssistantState;
+  onReady: () => void;
+  onLoadError: (error: unknown) => void;
+}
+
+/** The app's scene, minus everything tied to a live session (fade-in, pointer, UI levels) */
+function OfflineScene({ voiceData, settings, look, assistantState, onReady, onLoadError }: OfflineSceneProps) {
+  return (
+    <>
+      <PaletteLights look={look} />
+      <LoadErrorBoundary onError={onLoadError}>
+        <Suspense fallback={null}>
+          <Environment preset="studio" />
+          <Ready onReady={onReady} />
+        </Suspense>
+      </LoadErrorBoundary>
+      <VoiceReactiveBlob
+        voiceData={voiceData}
+        settings={settings}
+        look={look}
+        assistantState={assistantState}
+        primary={false}
+        fadeIn={false}
+        interactive={false}
+      />
+    </>
+  );
+}
+
+function canvasToPng(canvas: HTMLCanvasElement) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode a frame.'))), 'image/png');
+  });
+}
+
+function aborted(signal?: AbortSignal) {
+  return new Promise<never>((_, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+/**
+ * Renders an analysed audio file frame by frame in a private, off-screen R3F
+ * root. The frameloop is driven by hand: each frame advances the clock by
+ * exactly 1/fps, so every material tick and smoothing step sees the same
+ * delta whatever the machine — the same input renders the same frames.
+ */
+export async function renderOffline({
+  analysis,
+  settings,
+  look,
+  width,
+  height,
+  assistantState = 'listening',
+  onFrame,
+  onProgress,
+  signal,
+}: OfflineRenderOptions) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const root = createRoot(canvas);
+
+  try {
+    await root.configure({
+      gl: {
+        antialias: true,
+        alpha: false,
+        preserveDrawingBuffer: true,
+        toneMapping: THREE.ACESFilmicToneMapping,
+        toneMappingExposure: 1.0,
+      },
+      size: { width, height, top: 0, left: 0 },
+      dpr: 1,
+      frameloop: 'never',
+      camera: { position: [0, 0, 3.5], fov: 45 },
+      scene: { background: look.background.clone() },
+    });
+
+    const voiceData = { current: analysis.frames[0] };
+    let onReady = () => {};
+    let onLoadError = (_error: unknown) => {};
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const ready = new Promise<void>((resolve, reject) => {
+      onReady = resolve;
+      onLoadError = (error) =>
+        reject(new Error('The scene could not be loaded.', { cause: error }));
+      timer = setTimeout(
+        () => reject(new Error('Timed out loading the scene.')),
+        READY_TIMEOUT_MS
+      );
+    });
+    const store = root.render(
+      <OfflineScene
+        voiceData={voiceData}
+        settings={settings}
+        look={look}
+        assistantState={assistantState}
+        onReady={onReady}
+        onLoadError={onLoadError}
+      />
+    );
+    try {
+      await Promise.race([ready, aborted(signal)]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const state = store.getState();
+    const context = state.gl.getContext();
+    if (context.drawingBufferWidth !== width || context.drawingBufferHeight !== height) {
+      throw new Error(`${width}×${height} is larger than this GPU can render.`);
+    }
+
+    const { frames, fps } = analysis;
+    for (let i = 0; i < frames.length; i++) {
+      signal?.throwIfAborted();
+      voiceData.current = frames[i];
+      // Seconds, on the root's own clock — no global effects (e.g. a live video take)
+      advance(i / fps, false, state);
+      await onFrame(i, await canvasToPng(canvas));
+      onProgress?.((i + 1) / frames.length);
+    }
+  } finally {
+    root.unmount();
+  }
+}
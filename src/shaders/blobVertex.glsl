@@ -18,6 +18,7 @@ uniform float numberOfWaves;
 uniform float fixNormals;
 uniform float gooPoleAmount;
 uniform float surfacePoleAmount;
+uniform float pulse;
 
 // Mouse interaction — hit point in local/object space
 uniform vec3 mouseHit;
@@ -61,7 +62,8 @@ float displace(vec3 point) {
   float mouseDist = length(point - mouseHit);
   float mousePush = mouseStrength * exp(-mouseDist * mouseDist / (mouseRadius * mouseRadius));
 
-  return base + mousePush;
+  // Onset pulse — uniform radial kick layered over the breathing motion
+  return base + mousePush + pulse;
 }
 
 // Helper: find an orthogonal vector
@@ -0,0 +1,202 @@
+/**
+ * AudioWorklet processor: computes the magnitude spectrum (AnalyserNode
+ * compatible byte scale), the zero-crossing rate and a pitch estimate at a
+ * fixed hop size on the audio rendering thread, and hands frames to the main
+ * thread either through a SharedArrayBuffer (seqlock + a tiny notification
+ * message) or, when the page isn't cross-origin isolated, by transferring a
+ * copy.
+ */
+import { createFft, blackmanWindow } from '../lib/fft';
+import { createPitchDetector } from '../lib/pitch';
+import { zeroCrossingRate } from '../lib/timbre';
+import {
+  MAX_FFT_SIZE,
+  SHARED_FIELDS_OFFSET,
+  SHARED_FIELD_COUNT,
+  SHARED_SPECTRUM_OFFSET,
+  SPECTRUM_PROCESSOR_NAME,
+} from '../lib/spectrumFrame';
+import type {
+  SpectrumProcessorCommand,
+  SpectrumProcessorMessage,
+  SpectrumProcessorOptions,
+  SpectrumWorkletConfig,
+} from '../lib/spectrumFrame';
+
+// AudioWorkletGlobalScope — not part of the DOM lib typings
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: { processorOptions?: unknown }) => AudioWorkletProcessor
+): void;
+
+/** Pitch window and decimation — voice F0 sits well below sampleRate / 4 */
+const PITCH_WINDOW = 2048;
+const PITCH_DECIMATION = 2;
+/** Pitch is re-estimated every N hops to keep the render thread light */
+const PITCH_EVERY_HOPS = 2;
+
+const RING_SIZE = Math.max(MAX_FFT_SIZE, PITCH_WINDOW);
+
+class SpectrumProcessor extends AudioWorkletProcessor {
+  private config: SpectrumWorkletConfig;
+  private readonly hopSize: number;
+  private readonly shared: SharedArrayBuffer | null;
+  private readonly seq: Int32Array | null;
+  private readonly fields: Float64Array | null;
+  private readonly sharedSpectrum: Uint8Array | null;
+
+  private readonly ring = new Float32Array(RING_SIZE);
+  private writeIndex = 0;
+  private sinceHop = 0;
+  private hopCount = 0;
+  private frameSeq = 0;
+
+  private fft!: (re: Float32Array, im: Float32Array) => void;
+  private window!: Float32Array;
+  private re!: Float32Array;
+  private im!: Float32Array;
+  private smoothed!: Float32Array;
+  private bytes!: Uint8Array;
+
+  private readonly pitchSamples = new Float32Array(PITCH_WINDOW / PITCH_DECIMATION);
+  private readonly detectPitch = createPitchDetector();
+  private pitchHz = 0;
+  private pitchConfidence = 0;
+
+  constructor(options: { processorOptions?: unknown }) {
+    super(options);
+    const opts = options.processorOptions as SpectrumProcessorOptions;
+    this.config = opts.config;
+    this.hopSize = opts.hopSize;
+    this.shared = opts.shared;
+    if (this.shared) {
+      this.seq = new Int32Array(this.shared, 0, 1);
+      this.fields = new Float64Array(this.shared, SHARED_FIELDS_OFFSET, SHARED_FIELD_COUNT);
+      this.sharedSpectrum = new Uint8Array(this.shared, SHARED_SPECTRUM_OFFSET);
+    } else {
+      this.seq = null;
+      this.fields = null;
+      this.sharedSpectrum = null;
+    }
+    this.resize(this.config.fftSize);
+
+    this.port.onmessage = (e: MessageEvent<SpectrumProcessorCommand>) => {
+      if (e.data.type === 'config') {
+        const resized = e.data.config.fftSize !== this.config.fftSize;
+        this.config = e.data.config;
+        if (resized) this.resize(this.config.fftSize);
+      }
+    };
+  }
+
+  private resize(fftSize: number) {
+    this.fft = createFft(fftSize);
+    this.window = blackmanWindow(fftSize);
+    this.re = new Float32Array(fftSize);
+    this.im = new Float32Array(fftSize);
+    this.smoothed = new Float32Array(fftSize / 2);
+    this.bytes = new Uint8Array(fftSize / 2);
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channels = inputs[0];
+    const length = channels?.[0]?.length ?? 128;
+
+    // Down-mix to mono into the ring buffer (silence when disconnected)
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let c = 0; c < (channels?.length ?? 0); c++) sum += channels[c][i];
+      this.ring[this.writeIndex] = channels?.length ? sum / channels.length : 0;
+      this.writeIndex = (this.writeIndex + 1) % RING_SIZE;
+    }
+
+    this.sinceHop += length;
+    if (this.sinceHop >= this.hopSize) {
+      this.sinceHop -= this.hopSize;
+      this.analyseHop();
+    }
+    return true;
+  }
+
+  private analyseHop() {
+    const { fftSize, smoothingTimeConstant, minDecibels, maxDecibels } = this.config;
+    const bins = fftSize / 2;
+    const start = (this.writeIndex - fftSize + RING_SIZE) % RING_SIZE;
+
+    for (let i = 0; i < fftSize; i++) {
+      this.re[i] = this.ring[(start + i) % RING_SIZE];
+    }
+    // Measured before windowing — the window's near-zero tails would add sign flips
+    const zcr = zeroCrossingRate(this.re, fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      this.re[i] *= this.window[i];
+      this.im[i] = 0;
+    }
+    this.fft(this.re, this.im);
+
+    // Same smoothing + dB byte mapping as AnalyserNode.getByteFrequencyData
+    const range = maxDecibels - minDecibels;
+    for (let k = 0; k < bins; k++) {
+      const mag = Math.hypot(this.re[k], this.im[k]) / fftSize;
+      const s = smoothingTimeConstant * this.smoothed[k] + (1 - smoothingTimeConstant) * mag;
+      this.smoothed[k] = s;
+      const db = s > 0 ? 20 * Math.log10(s) : -Infinity;
+      this.bytes[k] = Math.max(0, Math.min(255, Math.floor((255 / range) * (db - minDecibels))));
+    }
+
+    if (this.hopCount++ % PITCH_EVERY_HOPS === 0) {
+      // Pairwise-average decimation doubles as a crude anti-alias filter
+      const pitchStart = (this.writeIndex - PITCH_WINDOW + RING_SIZE) % RING_SIZE;
+      for (let i = 0; i < this.pitchSamples.length; i++) {
+        const a = this.ring[(pitchStart + i * PITCH_DECIMATION) % RING_SIZE];
+        const b = this.ring[(pitchStart + i * PITCH_DECIMATION + 1) % RING_SIZE];
+        this.pitchSamples[i] = (a + b) * 0.5;
+      }
+      const pitch = this.detectPitch(this.pitchSamples, sampleRate / PITCH_DECIMATION);
+      this.pitchHz = pitch.hz;
+      this.pitchConfidence = pitch.confidence;
+    }
+
+    const time = (currentFrame / sampleRate) * 1000;
+    this.frameSeq += 2;
+
+    if (this.seq && this.fields && this.sharedSpectrum) {
+      Atomics.store(this.seq, 0, this.frameSeq - 1);
+      this.fields[0] = time;
+      this.fields[1] = fftSize;
+      this.fields[2] = sampleRate;
+      this.fields[3] = this.pitchHz;
+      this.fields[4] = this.pitchConfidence;
+      this.fields[5] = zcr;
+      this.sharedSpectrum.set(this.bytes);
+      Atomics.store(this.seq, 0, this.frameSeq);
+      this.port.postMessage({ type: 'frame', seq: this.frameSeq } satisfies SpectrumProcessorMessage);
+    } else {
+      const frequency = this.bytes.slice();
+      this.port.postMessage(
+        {
+          type: 'frame',
+          seq: this.frameSeq,
+          frame: {
+            frequency,
+            fftSize,
+            sampleRate,
+            pitchHz: this.pitchHz,
+            pitchConfidence: this.pitchConfidence,
+            zeroCrossingRate: zcr,
+            time,
+          },
+        } satisfies SpectrumProcessorMessage,
+        [frequency.buffer]
+      );
+    }
+  }
+}
+
+registerProcessor(SPECTRUM_PROCESSOR_NAME, SpectrumProcessor);
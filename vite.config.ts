@@ -2,6 +2,22 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
-})
+  // `vite build --mode lib`: <voice-blob> + ES module API as one self-contained
+  // module (React and three bundled), for pages that aren't React apps
+  ...(mode === 'lib' && {
+    define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+    // Relative, so the worklet module resolves next to voice-blob.js wherever it's hosted
+    base: './',
+    publicDir: false,
+    build: {
+      outDir: 'dist-lib',
+      lib: {
+        entry: 'src/index.ts',
+        formats: ['es' as const],
+        fileName: 'voice-blob',
+      },
+    },
+  }),
+}))